@@ -3,7 +3,25 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
+import { OfflineQueueProvider } from "@/components/OfflineQueueProvider";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { AdminLayout } from "@/components/AdminLayout";
+import { UpdatePrompt } from "@/components/UpdatePrompt";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
+import Admin from "./pages/Admin";
+import DataSubjectRequests from "./pages/DataSubjectRequests";
+import RatingCriteria from "./pages/RatingCriteria";
+import DiningTables from "./pages/DiningTables";
+import Kiosk from "./pages/Kiosk";
+import KioskSettings from "./pages/KioskSettings";
+import Alerts from "./pages/Alerts";
+import Customers from "./pages/Customers";
+import CustomerProfile from "./pages/CustomerProfile";
+import AuditLog from "./pages/AuditLog";
+import ImportFeedbacks from "./pages/ImportFeedbacks";
+import Tags from "./pages/Tags";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -13,13 +31,97 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <UpdatePrompt />
+      <AuthProvider>
+        <OfflineQueueProvider>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/avaliar" element={<Index />} />
+              <Route path="/kiosk" element={<Kiosk />} />
+              <Route path="/login" element={<Login />} />
+              <Route
+                path="/admin"
+                element={
+                  <ProtectedRoute>
+                    <AdminLayout />
+                  </ProtectedRoute>
+                }
+              >
+                <Route index element={<Admin />} />
+                <Route path="clientes" element={<Customers />} />
+                <Route path="clientes/:cpfHash" element={<CustomerProfile />} />
+                <Route
+                  path="etiquetas"
+                  element={
+                    <ProtectedRoute minimumRole="manager">
+                      <Tags />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="criterios"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <RatingCriteria />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="mesas"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <DiningTables />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="quiosque"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <KioskSettings />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="alertas"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <Alerts />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="lgpd"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <DataSubjectRequests />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="auditoria"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <AuditLog />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="importar"
+                  element={
+                    <ProtectedRoute minimumRole="admin">
+                      <ImportFeedbacks />
+                    </ProtectedRoute>
+                  }
+                />
+              </Route>
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </OfflineQueueProvider>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,75 @@
+import { NavLink, Outlet } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth, type AppRole } from "@/hooks/use-auth";
+import { BarChart3, Bell, Contact, FileUp, ListChecks, LogOut, QrCode, ScrollText, ShieldCheck, Tablet, Tags, Users } from "lucide-react";
+import { BrandLogo } from "./BrandLogo";
+
+const roleLabels = {
+  admin: "Administrador",
+  manager: "Gerente",
+  staff: "Equipe"
+};
+
+export const AdminLayout = () => {
+  const { user, role, hasRole, signOut } = useAuth();
+
+  const navItems: { to: string; label: string; icon: typeof BarChart3; end?: boolean; minimumRole: AppRole }[] = [
+    { to: "/admin", label: "Painel", icon: BarChart3, end: true, minimumRole: "staff" },
+    { to: "/admin/clientes", label: "Clientes", icon: Contact, minimumRole: "staff" },
+    { to: "/admin/etiquetas", label: "Etiquetas", icon: Tags, minimumRole: "manager" },
+    { to: "/admin/criterios", label: "Critérios", icon: ListChecks, minimumRole: "admin" },
+    { to: "/admin/mesas", label: "Mesas", icon: QrCode, minimumRole: "admin" },
+    { to: "/admin/quiosque", label: "Quiosque", icon: Tablet, minimumRole: "admin" },
+    { to: "/admin/alertas", label: "Alertas", icon: Bell, minimumRole: "admin" },
+    { to: "/admin/importar", label: "Importar", icon: FileUp, minimumRole: "admin" },
+    { to: "/admin/lgpd", label: "LGPD", icon: ShieldCheck, minimumRole: "admin" },
+    { to: "/admin/auditoria", label: "Auditoria", icon: ScrollText, minimumRole: "admin" }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <nav className="bg-card shadow-card border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center gap-6">
+              <BrandLogo style={{ marginTop: '5px' }} />
+              <div className="hidden md:flex space-x-2">
+                {navItems.filter(item => hasRole(item.minimumRole)).map(({ to, label, icon: Icon, end }) => (
+                  <NavLink key={to} to={to} end={end}>
+                    {({ isActive }) => (
+                      <Button variant={isActive ? "default" : "ghost"} className="flex items-center gap-2">
+                        <Icon className="h-4 w-4" />
+                        {label}
+                      </Button>
+                    )}
+                  </NavLink>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button asChild variant="outline" className="flex items-center gap-2">
+                <NavLink to="/">
+                  <Users className="h-4 w-4" />
+                  Avaliação
+                </NavLink>
+              </Button>
+              <div className="hidden sm:flex flex-col items-end">
+                <span className="text-sm font-medium">{user?.email}</span>
+                {role && <Badge variant="secondary">{roleLabels[role]}</Badge>}
+              </div>
+              <Button variant="ghost" size="icon" onClick={signOut} title="Sair">
+                <LogOut className="h-4 w-4" />
+                <span className="sr-only">Sair</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="py-8">
+        <Outlet />
+      </main>
+    </div>
+  );
+};
@@ -1,58 +1,129 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Link } from "react-router-dom";
+import type { DateRange } from "react-day-picker";
+import { format } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
-import { Star, TrendingDown, TrendingUp, Users, MessageSquare, Download, Filter } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Star, TrendingDown, TrendingUp, Users, Download, AlertTriangle, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface Feedback {
-  id: string;
-  created_at: string;
-  nome: string;
-  cpf: string;
-  telefone: string;
-  instagram: string;
-  qualidade_comida: number;
-  atendimento: number;
-  tempo_espera: number;
-  higiene_limpeza: number;
-  custo_beneficio: number;
-  ambiente_conforto: number;
-  comentario: string;
-}
-
-const criteriaMapping = {
-  qualidade_comida: "Qualidade da Comida",
-  atendimento: "Atendimento",
-  tempo_espera: "Tempo de Espera", 
-  higiene_limpeza: "Higiene e Limpeza",
-  custo_beneficio: "Custo-Benefício",
-  ambiente_conforto: "Ambiente e Conforto"
+import { formatCPF } from "@/lib/cpf";
+import { formatPhone } from "@/lib/phone";
+import { logAuditEvent } from "@/lib/audit";
+import { toCSV } from "@/lib/csv";
+import { downloadFile, fileDateStamp } from "@/lib/download";
+import { fetchAllRows } from "@/lib/paging";
+import { pseudonym, revealContacts, type RevealedContact } from "@/lib/pii";
+import { isWithinRange, periodPresetLabels, toQueryBounds, type PeriodPreset } from "@/lib/date-range";
+import { criterionLabel, type FeedbackListItem } from "@/lib/feedback";
+import {
+  defaultFeedbackListFilters,
+  feedbackListQuery,
+  type FeedbackListFilters,
+  type LocationFilter,
+  type NpsFilter,
+  type SentimentFilter,
+  type TagFilter,
+  type TopicFilter
+} from "@/lib/feedback-filters";
+import type { CommentTopic } from "@/lib/comment-analysis";
+import { feedbackExportColumns, type FeedbackExportOptions } from "@/lib/feedback-export";
+import { buildWorkbook } from "@/lib/xlsx";
+import { buildReportPdf, chartToImage } from "@/lib/report-pdf";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { useAuth } from "@/hooks/use-auth";
+import { useTags } from "@/hooks/use-tags";
+import type { Database } from "@/integrations/supabase/types";
+import { DateRangeFilter } from "./DateRangeFilter";
+import { RatingTrendChart } from "./RatingTrendChart";
+import { NpsSummary } from "./NpsSummary";
+import { LocationComparison } from "./LocationComparison";
+import { CommentInsights } from "./CommentInsights";
+import { TagComparison } from "./TagComparison";
+import { FeedbackList } from "./FeedbackList";
+import { ExportDialog } from "./ExportDialog";
+
+type FeedbackSummary = Database["public"]["Functions"]["feedback_summary"]["Returns"][number];
+type RatingDistribution = Database["public"]["Functions"]["feedback_rating_distribution"]["Returns"];
+type FeedbackCase = Database["public"]["Tables"]["feedback_cases"]["Row"];
+
+// Comments from each end of the rating scale in the PDF report
+const REPORT_COMMENTS = 5;
+
+// Dashboard aggregates of a period, also behind the summary sheets of the spreadsheet export
+const fetchPeriodAggregates = async (dateRange: DateRange | undefined) => {
+  const { from, to } = toQueryBounds(dateRange);
+  const bounds = { _from: from ?? undefined, _to: to ?? undefined };
+  const [summaryResult, distributionResult] = await Promise.all([
+    supabase.rpc('feedback_summary', bounds),
+    supabase.rpc('feedback_rating_distribution', bounds)
+  ]);
+
+  if (summaryResult.error) throw summaryResult.error;
+  if (distributionResult.error) throw distributionResult.error;
+
+  return { summary: summaryResult.data?.[0] ?? null, distribution: distributionResult.data || [] };
 };
 
 export const AdminPanel = () => {
-  const [feedbacks, setFeedbacks] = useState<Feedback[]>([]);
   const [loading, setLoading] = useState(true);
-  const [sortBy, setSortBy] = useState<"recent" | "best" | "worst">("recent");
-  const [minRatingFilter, setMinRatingFilter] = useState<string>("all");
+  const [periodPreset, setPeriodPreset] = useState<PeriodPreset>("all");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+  const [distribution, setDistribution] = useState<RatingDistribution>([]);
+  // Bumped on realtime inserts so the aggregates, trend chart and list refetch
+  const [aggregatesVersion, setAggregatesVersion] = useState(0);
+  const [npsFilter, setNpsFilter] = useState<NpsFilter>("all");
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>("all");
+  const [sentimentFilter, setSentimentFilter] = useState<SentimentFilter>("all");
+  const [topicFilter, setTopicFilter] = useState<TopicFilter>("all");
+  const [tagFilter, setTagFilter] = useState<TagFilter>("all");
+  // Bumped when feedbacks are tagged or untagged from the list
+  const [tagsVersion, setTagsVersion] = useState(0);
+  const feedbackListRef = useRef<HTMLDivElement>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Last filters reported by the list, for "export current filtered view"
+  const [listFilters, setListFilters] = useState<FeedbackListFilters | null>(null);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  // Charts captured as images for the PDF report
+  const distributionChartRef = useRef<HTMLDivElement>(null);
+  const criteriaChartRef = useRef<HTMLDivElement>(null);
+  const trendChartRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  const { tags } = useTags();
+
+  // Read by the realtime handler without resubscribing whenever the period changes
+  const dateRangeRef = useRef(dateRange);
+  dateRangeRef.current = dateRange;
 
   useEffect(() => {
-    fetchFeedbacks();
-    
-    // Real-time subscription
+    // New feedbacks open a case, which carries no personal data. Imported ones start resolved
+    // and are left out. Name and date come from the masked list.
     const channel = supabase
-      .channel('feedbacks-changes')
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'feedbacks' }, (payload) => {
-        console.log('New feedback received:', payload);
-        setFeedbacks(prev => [payload.new as Feedback, ...prev]);
+      .channel('feedback-cases-changes')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'feedback_cases', filter: 'status=eq.novo' }, async (payload) => {
+        const { feedback_id } = payload.new as FeedbackCase;
+        const { data, error } = await supabase
+          .from('feedback_list')
+          .select('nome, created_at')
+          .eq('id', feedback_id)
+          .maybeSingle();
+
+        if (error || !data) {
+          if (error) console.error('Error fetching new feedback:', error);
+          return;
+        }
+        if (isWithinRange(data.created_at, dateRangeRef.current)) {
+          setAggregatesVersion(prev => prev + 1);
+        }
         toast({
           title: "Nova avaliação recebida!",
-          description: `${(payload.new as Feedback).nome} enviou uma nova avaliação.`,
+          description: `${data.nome} enviou uma nova avaliação.`,
         });
       })
       .subscribe();
@@ -62,51 +133,37 @@ export const AdminPanel = () => {
     };
   }, [toast]);
 
-  const fetchFeedbacks = async () => {
+  const fetchAggregates = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('feedbacks')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setFeedbacks(data || []);
+      const aggregates = await fetchPeriodAggregates(dateRange);
+      setSummary(aggregates.summary);
+      setDistribution(aggregates.distribution);
     } catch (error) {
-      console.error('Error fetching feedbacks:', error);
+      console.error('Error fetching feedback aggregates:', error);
       toast({
-        title: "Erro ao carregar avaliações",
+        title: "Erro ao carregar indicadores",
         description: "Tente novamente em alguns minutos.",
         variant: "destructive"
       });
     } finally {
       setLoading(false);
     }
-  };
+  }, [dateRange, toast]);
 
-  const calculateAverages = () => {
-    if (feedbacks.length === 0) return {};
-    
-    const totals = feedbacks.reduce((acc, feedback) => ({
-      qualidade_comida: acc.qualidade_comida + feedback.qualidade_comida,
-      atendimento: acc.atendimento + feedback.atendimento,
-      tempo_espera: acc.tempo_espera + feedback.tempo_espera,
-      higiene_limpeza: acc.higiene_limpeza + feedback.higiene_limpeza,
-      custo_beneficio: acc.custo_beneficio + feedback.custo_beneficio,
-      ambiente_conforto: acc.ambiente_conforto + feedback.ambiente_conforto,
-    }), {
-      qualidade_comida: 0,
-      atendimento: 0,
-      tempo_espera: 0,
-      higiene_limpeza: 0,
-      custo_beneficio: 0,
-      ambiente_conforto: 0,
-    });
-
-    const averages = Object.fromEntries(
-      Object.entries(totals).map(([key, value]) => [key, value / feedbacks.length])
+  useEffect(() => {
+    fetchAggregates();
+  }, [fetchAggregates, aggregatesVersion]);
+
+  // Average per criterion label, only criteria rated in the selected period
+  const calculateAverages = (): Record<string, number> => {
+    if (!summary || summary.total_feedbacks === 0) return {};
+
+    const averages = (summary.criteria_averages || {}) as Record<string, number>;
+    return Object.fromEntries(
+      criteria
+        .filter(criterion => averages[criterion.key] !== undefined)
+        .map(criterion => [criterionLabel(criterion), Number(averages[criterion.key])])
     );
-
-    return averages;
   };
 
   const getWorstAndBestCriteria = () => {
@@ -123,102 +180,223 @@ export const AdminPanel = () => {
     );
 
     return {
-      worst: { name: criteriaMapping[worst[0] as keyof typeof criteriaMapping], score: worst[1] },
-      best: { name: criteriaMapping[best[0] as keyof typeof criteriaMapping], score: best[1] }
+      worst: { name: worst[0], score: worst[1] },
+      best: { name: best[0], score: best[1] }
     };
   };
 
-  const getRecurrentCustomers = () => {
-    const cpfCounts = feedbacks.reduce((acc, feedback) => {
-      acc[feedback.cpf] = (acc[feedback.cpf] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const recurrentCount = Object.values(cpfCounts).filter(count => count > 1).length;
-    return Math.round((recurrentCount / Object.keys(cpfCounts).length) * 100) || 0;
-  };
+  const getRecurrentCustomers = () => summary?.recurrent_percentage ?? 0;
 
-  const getRatingDistribution = () => {
-    const distribution = Array.from({ length: 5 }, (_, i) => ({ rating: i + 1, count: 0 }));
-    
-    feedbacks.forEach(feedback => {
-      const avgRating = Math.round((
-        feedback.qualidade_comida + feedback.atendimento + feedback.tempo_espera +
-        feedback.higiene_limpeza + feedback.custo_beneficio + feedback.ambiente_conforto
-      ) / 6);
-      
-      if (avgRating >= 1 && avgRating <= 5) {
-        distribution[avgRating - 1].count++;
-      }
-    });
-
-    return distribution;
-  };
+  const getRatingDistribution = () => distribution.map(({ rating, count }) => ({ rating, count: Number(count) }));
 
   const getCriteriaChartData = () => {
     const averages = calculateAverages();
     return Object.entries(averages).map(([key, value]) => ({
-      criteria: criteriaMapping[key as keyof typeof criteriaMapping],
+      criteria: key,
       score: Number(value.toFixed(1))
     }));
   };
 
-  const filteredAndSortedFeedbacks = () => {
-    let filtered = feedbacks;
-    
-    if (minRatingFilter !== "all") {
-      const minRating = Number(minRatingFilter);
-      filtered = feedbacks.filter(feedback => {
-        const avgRating = (
-          feedback.qualidade_comida + feedback.atendimento + feedback.tempo_espera +
-          feedback.higiene_limpeza + feedback.custo_beneficio + feedback.ambiente_conforto
-        ) / 6;
-        return avgRating >= minRating;
+  const scrollToList = () => feedbackListRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+  const showDetractors = () => {
+    setNpsFilter("detractor");
+    scrollToList();
+  };
+
+  const showLocation = (filter: LocationFilter) => {
+    setLocationFilter(filter);
+    scrollToList();
+  };
+
+  const showSentiment = (filter: SentimentFilter) => {
+    setSentimentFilter(filter);
+    scrollToList();
+  };
+
+  const showTopic = (topic: CommentTopic) => {
+    setTopicFilter(topic);
+    scrollToList();
+  };
+
+  const showTag = (tagId: string) => {
+    setTagFilter(tagId);
+    scrollToList();
+  };
+
+  // "2025-09-01_a_2025-09-30_" for file names, empty when there's no period
+  const periodFileSuffix = (range: DateRange | undefined) =>
+    range?.from ? `${format(range.from, 'yyyy-MM-dd')}_a_${format(range.to ?? range.from, 'yyyy-MM-dd')}_` : '';
+
+  const exportFeedbacks = async ({ format: fileFormat, privacy, scope, delimiter, columns }: FeedbackExportOptions) => {
+    const filters = scope === "filtered" && listFilters ? listFilters : { ...defaultFeedbackListFilters, dateRange };
+    try {
+      const feedbacks = await fetchAllRows((from, to) => feedbackListQuery(filters, user?.id).range(from, to));
+      // The list only carries masked values, a full export reveals them (and gets logged)
+      const contacts = privacy === "full" && feedbacks.length > 0
+        ? await revealContacts(feedbacks.map(feedback => feedback.id), "export")
+        : new Map<string, RevealedContact>();
+      const { from, to } = toQueryBounds(filters.dateRange);
+      await logAuditEvent("feedbacks.export", { format: fileFormat, privacy, scope, rows: feedbacks.length, from, to });
+
+      const personalColumns = (feedback: FeedbackListItem): Record<string, string> => {
+        if (privacy === "omit") return {};
+        if (privacy === "pseudonymize") return { 'Cliente': feedback.anonymized_at || !feedback.cpf_hash ? '' : pseudonym(feedback.cpf_hash) };
+
+        const contact = contacts.get(feedback.id);
+        return {
+          'Nome': feedback.nome,
+          'CPF': contact ? formatCPF(contact.cpf) : '',
+          'Telefone': contact ? formatPhone(contact.telefone) : '',
+          'Instagram': feedback.instagram
+        };
+      };
+
+      const selected = feedbackExportColumns(criteria, tags).filter(column => columns.includes(column.key));
+      const rows = feedbacks.map(feedback => ({
+        ...personalColumns(feedback),
+        ...Object.fromEntries(selected.map(column => [column.label, column.value(feedback)]))
+      }));
+      const baseName = `avaliacoes_lardo_${periodFileSuffix(filters.dateRange)}${fileDateStamp()}`;
+
+      if (fileFormat === "xlsx") {
+        // Summary sheets come from the same aggregates as the dashboard, which only take the
+        // period, so a filtered export says so in their names
+        const { summary: periodSummary, distribution: periodDistribution } = await fetchPeriodAggregates(filters.dateRange);
+        const [averagesSheet, distributionSheet] = scope === "filtered"
+          ? ["Médias (todo o período)", "Distribuição (todo o período)"]
+          : ["Médias por critério", "Distribuição"];
+        const periodTotal = Number(periodSummary?.total_feedbacks ?? 0);
+        const averages = (periodSummary?.criteria_averages || {}) as Record<string, number>;
+        const workbook = await buildWorkbook([
+          { name: "Avaliações", rows },
+          {
+            name: averagesSheet,
+            rows: criteria
+              .filter(criterion => averages[criterion.key] !== undefined)
+              .map(criterion => ({
+                'Critério': criterionLabel(criterion),
+                'Média': Number(Number(averages[criterion.key]).toFixed(2))
+              }))
+          },
+          {
+            name: distributionSheet,
+            rows: periodDistribution.map(({ rating, count }) => ({
+              'Nota': rating,
+              'Avaliações': Number(count),
+              'Percentual': periodTotal ? Number(((Number(count) / periodTotal) * 100).toFixed(1)) : 0
+            }))
+          }
+        ]);
+        downloadFile(workbook, `${baseName}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      } else {
+        downloadFile(toCSV(rows, { delimiter }), `${baseName}.csv`, 'text/csv;charset=utf-8;');
+      }
+
+      toast({
+        title: "Exportação concluída!",
+        description: `${feedbacks.length} avaliação(ões) exportada(s).`,
+      });
+    } catch (exportError) {
+      console.error('Error exporting feedbacks:', exportError);
+      toast({
+        title: "Erro ao exportar avaliações",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
       });
     }
+  };
 
-    return filtered.sort((a, b) => {
-      if (sortBy === "recent") {
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      }
-      
-      const avgA = (a.qualidade_comida + a.atendimento + a.tempo_espera + a.higiene_limpeza + a.custo_beneficio + a.ambiente_conforto) / 6;
-      const avgB = (b.qualidade_comida + b.atendimento + b.tempo_espera + b.higiene_limpeza + b.custo_beneficio + b.ambiente_conforto) / 6;
-      
-      return sortBy === "best" ? avgB - avgA : avgA - avgB;
-    });
+  // Top and bottom comments of the period, rated best first or worst first
+  const fetchReportComments = (ascending: boolean) => {
+    const { from, to } = toQueryBounds(dateRange);
+    let query = supabase
+      .from('feedback_list')
+      .select('id, created_at, average_rating, comentario')
+      .neq('comentario', '')
+      .order('average_rating', { ascending })
+      .order('created_at', { ascending: false })
+      .limit(REPORT_COMMENTS);
+
+    if (from && to) {
+      query = query.gte('created_at', from).lte('created_at', to);
+    }
+    return query;
   };
 
-  const exportToCSV = () => {
-    const headers = ['Nome', 'CPF', 'Telefone', 'Instagram', 'Data', 'Qualidade Comida', 'Atendimento', 'Tempo Espera', 'Higiene', 'Custo-Benefício', 'Ambiente', 'Comentário'];
-    const csvContent = [
-      headers.join(','),
-      ...feedbacks.map(feedback => [
-        feedback.nome,
-        feedback.cpf,
-        feedback.telefone,
-        feedback.instagram,
-        new Date(feedback.created_at).toLocaleDateString('pt-BR'),
-        feedback.qualidade_comida,
-        feedback.atendimento,
-        feedback.tempo_espera,
-        feedback.higiene_limpeza,
-        feedback.custo_beneficio,
-        feedback.ambiente_conforto,
-        `"${feedback.comentario?.replace(/"/g, '""') || ''}"`
-      ].join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `avaliacoes_lardo_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
-    
-    toast({
-      title: "Exportação concluída!",
-      description: "Arquivo CSV baixado com sucesso.",
-    });
+  const exportReportPdf = async () => {
+    setIsGeneratingReport(true);
+    try {
+      const { from, to } = toQueryBounds(dateRange);
+      const [topResult, bottomResult, npsResult] = await Promise.all([
+        fetchReportComments(false),
+        fetchReportComments(true),
+        supabase.rpc('feedback_nps', { _from: from ?? undefined, _to: to ?? undefined })
+      ]);
+      if (topResult.error) throw topResult.error;
+      if (bottomResult.error) throw bottomResult.error;
+      if (npsResult.error) throw npsResult.error;
+
+      const [distributionImage, criteriaImage, trendImage] = await Promise.all([
+        chartToImage(distributionChartRef.current),
+        chartToImage(criteriaChartRef.current),
+        chartToImage(trendChartRef.current)
+      ]);
+
+      const toReportComment = (row: { created_at: string; average_rating: number; comentario: string }) => ({
+        date: new Date(row.created_at).toLocaleDateString('pt-BR'),
+        average: Number(row.average_rating),
+        comentario: row.comentario
+      });
+      const topComments = topResult.data || [];
+      // With only a handful of comments the two lists would repeat each other
+      const bottomComments = (bottomResult.data || []).filter(row => !topComments.some(top => top.id === row.id));
+
+      const { worst, best } = getWorstAndBestCriteria();
+      const nps = npsResult.data?.[0];
+      const charts = [
+        distributionImage && {
+          title: "Distribuição de Notas",
+          image: distributionImage,
+          caption: getRatingDistribution().map(({ rating, count }) => `${rating} estrela(s): ${count}`).join(" · ")
+        },
+        criteriaImage && { title: "Média por Critério", image: criteriaImage },
+        trendImage && { title: "Evolução das Notas", image: trendImage }
+      ].filter(Boolean);
+
+      const pdf = buildReportPdf({
+        periodLabel: dateRange?.from
+          ? `${format(dateRange.from, 'dd/MM/yyyy')} a ${format(dateRange.to ?? dateRange.from, 'dd/MM/yyyy')}`
+          : periodPresetLabels[periodPreset],
+        headline: [
+          { label: "Total de Avaliações", value: String(summary?.total_feedbacks ?? 0) },
+          { label: "Nota Média Geral", value: Number(summary?.overall_average ?? 0).toFixed(1) },
+          { label: "NPS", value: nps?.responses ? String(nps.nps_score) : "-" },
+          { label: "Clientes Recorrentes", value: `${getRecurrentCustomers()}%` },
+          { label: "Negativas em Aberto", value: String(summary?.open_negative ?? 0) },
+          { label: "Melhor Critério", value: best ? `${best.name} (${best.score.toFixed(1)})` : "-" }
+        ],
+        charts,
+        topComments: topComments.map(toReportComment),
+        bottomComments: bottomComments.map(toReportComment),
+        improvement: worst
+          ? `${worst.name} foi o critério com menor pontuação média (${worst.score.toFixed(1)} estrelas). ` +
+            'Considere focar melhorias nesta área para aumentar a satisfação geral.'
+          : null
+      });
+
+      await logAuditEvent("feedbacks.export", { format: "pdf", rows: summary?.total_feedbacks ?? 0, from, to });
+      downloadFile(pdf, `relatorio_lardo_${periodFileSuffix(dateRange)}${fileDateStamp()}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error('Error generating report:', error);
+      toast({
+        title: "Erro ao gerar relatório",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGeneratingReport(false);
+    }
   };
 
   if (loading) {
@@ -232,24 +410,44 @@ export const AdminPanel = () => {
     );
   }
 
-  const averages = calculateAverages();
   const { worst, best } = getWorstAndBestCriteria();
   const recurrentPercentage = getRecurrentCustomers();
-  const overallAverage = Object.values(averages).length ? 
-    Object.values(averages).reduce((sum, avg) => sum + avg, 0) / Object.values(averages).length : 0;
+  const overallAverage = Number(summary?.overall_average ?? 0);
 
   const COLORS = ['#A72026', '#D73F47', '#E85A64', '#F07A82', '#F899A0'];
 
   return (
     <div className="max-w-7xl mx-auto p-6 space-y-6">
+      {/* Period */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-primary">Painel de Avaliações</h2>
+          <p className="text-sm text-muted-foreground">Período: {periodPresetLabels[periodPreset]}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <DateRangeFilter
+            preset={periodPreset}
+            range={dateRange}
+            onChange={(preset, range) => {
+              setPeriodPreset(preset);
+              setDateRange(range);
+            }}
+          />
+          <Button onClick={exportReportPdf} variant="outline" disabled={isGeneratingReport} className="flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            {isGeneratingReport ? "Gerando..." : "Relatório PDF"}
+          </Button>
+        </div>
+      </div>
+
       {/* Header Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">Total de Avaliações</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-primary">{feedbacks.length}</div>
+            <div className="text-2xl font-bold text-primary">{summary?.total_feedbacks ?? 0}</div>
           </CardContent>
         </Card>
         
@@ -281,6 +479,21 @@ export const AdminPanel = () => {
               <Users className="h-5 w-5 text-primary" />
               <div className="text-2xl font-bold text-primary">{recurrentPercentage}%</div>
             </div>
+            <Link to="/admin/clientes" className="text-xs text-muted-foreground hover:text-primary hover:underline">
+              Ver clientes
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Negativas em Aberto</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <AlertTriangle className={`h-5 w-5 ${summary?.open_negative ? 'text-destructive' : 'text-muted-foreground'}`} />
+              <div className="text-2xl font-bold text-primary">{summary?.open_negative ?? 0}</div>
+            </div>
           </CardContent>
         </Card>
 
@@ -305,7 +518,7 @@ export const AdminPanel = () => {
             <CardTitle>Distribuição de Notas</CardTitle>
             <CardDescription>Quantidade de avaliações por faixa de nota</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent ref={distributionChartRef}>
             <ResponsiveContainer width="100%" height={250}>
               <PieChart>
                 <Pie
@@ -332,7 +545,7 @@ export const AdminPanel = () => {
             <CardTitle>Média por Critério</CardTitle>
             <CardDescription>Desempenho de cada critério avaliado</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent ref={criteriaChartRef}>
             <ResponsiveContainer width="100%" height={250}>
               <BarChart data={getCriteriaChartData()}>
                 <CartesianGrid strokeDasharray="3 3" />
@@ -352,6 +565,23 @@ export const AdminPanel = () => {
         </Card>
       </div>
 
+      <NpsSummary dateRange={dateRange} refreshKey={aggregatesVersion} onShowDetractors={showDetractors} />
+
+      <div ref={trendChartRef}>
+        <RatingTrendChart dateRange={dateRange} refreshKey={aggregatesVersion} />
+      </div>
+
+      <LocationComparison dateRange={dateRange} refreshKey={aggregatesVersion} onSelect={showLocation} />
+
+      <CommentInsights
+        dateRange={dateRange}
+        refreshKey={aggregatesVersion}
+        onSelectSentiment={showSentiment}
+        onSelectTopic={showTopic}
+      />
+
+      <TagComparison dateRange={dateRange} refreshKey={aggregatesVersion + tagsVersion} onSelect={showTag} />
+
       {/* Insights */}
       {worst && (
         <Card>
@@ -371,115 +601,32 @@ export const AdminPanel = () => {
       )}
 
       {/* Filters and Actions */}
-      <Card>
-        <CardHeader>
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-            <CardTitle>Lista de Avaliações ({filteredAndSortedFeedbacks().length})</CardTitle>
-            <div className="flex flex-wrap gap-2">
-              <Select value={sortBy} onValueChange={(value: "recent" | "best" | "worst") => setSortBy(value)}>
-                <SelectTrigger className="w-[140px]">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="recent">Mais Recentes</SelectItem>
-                  <SelectItem value="best">Melhores</SelectItem>
-                  <SelectItem value="worst">Piores</SelectItem>
-                </SelectContent>
-              </Select>
-              
-              <Select value={minRatingFilter} onValueChange={setMinRatingFilter}>
-                <SelectTrigger className="w-[140px]">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">Todas as notas</SelectItem>
-                  <SelectItem value="1">Nota ≥ 1</SelectItem>
-                  <SelectItem value="2">Nota ≥ 2</SelectItem>
-                  <SelectItem value="3">Nota ≥ 3</SelectItem>
-                  <SelectItem value="4">Nota ≥ 4</SelectItem>
-                  <SelectItem value="5">Nota = 5</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Button onClick={exportToCSV} variant="outline" className="flex items-center gap-2">
-                <Download className="h-4 w-4" />
-                Exportar CSV
-              </Button>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {filteredAndSortedFeedbacks().map((feedback) => {
-              const avgRating = (
-                feedback.qualidade_comida + feedback.atendimento + feedback.tempo_espera +
-                feedback.higiene_limpeza + feedback.custo_beneficio + feedback.ambiente_conforto
-              ) / 6;
-              
-              const isNegative = avgRating <= 3;
-
-              return (
-                <Card key={feedback.id} className={`${isNegative ? 'border-destructive/50 bg-destructive/5' : ''}`}>
-                  <CardContent className="pt-6">
-                    <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-2">
-                          <h4 className="font-semibold">{feedback.nome}</h4>
-                          <Badge variant="outline">@{feedback.instagram}</Badge>
-                          <span className="text-sm text-muted-foreground">
-                            {new Date(feedback.created_at).toLocaleDateString('pt-BR')}
-                          </span>
-                        </div>
-                        
-                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
-                          {Object.entries(criteriaMapping).map(([key, label]) => (
-                            <div key={key} className="flex justify-between">
-                              <span className="text-muted-foreground">{label}:</span>
-                              <div className="flex items-center gap-1">
-                                <span>{feedback[key as keyof typeof feedback]}</span>
-                                <Star className="h-3 w-3 fill-primary text-primary" />
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                        
-                        {feedback.comentario && (
-                          <div className="mt-3 p-3 bg-muted rounded-md">
-                            <div className="flex items-start gap-2">
-                              <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground" />
-                              <p className="text-sm">{feedback.comentario}</p>
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                      
-                      <div className="text-right">
-                        <div className="text-2xl font-bold text-primary">{avgRating.toFixed(1)}</div>
-                        <div className="flex justify-end">
-                          {Array.from({ length: 5 }).map((_, i) => (
-                            <Star 
-                              key={i} 
-                              className={`h-4 w-4 ${i < Math.round(avgRating) ? 'fill-primary text-primary' : 'text-muted-foreground'}`} 
-                            />
-                          ))}
-                        </div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })}
-            
-            {filteredAndSortedFeedbacks().length === 0 && (
-              <div className="text-center py-8">
-                <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground">Nenhuma avaliação encontrada com os filtros selecionados.</p>
-              </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      <div ref={feedbackListRef} className="scroll-mt-6">
+        <FeedbackList
+          dateRange={dateRange}
+          refreshKey={aggregatesVersion}
+          npsFilter={npsFilter}
+          onNpsFilterChange={setNpsFilter}
+          locationFilter={locationFilter}
+          onLocationFilterChange={setLocationFilter}
+          sentimentFilter={sentimentFilter}
+          onSentimentFilterChange={setSentimentFilter}
+          topicFilter={topicFilter}
+          onTopicFilterChange={setTopicFilter}
+          tagFilter={tagFilter}
+          onTagFilterChange={setTagFilter}
+          onTagsChanged={() => setTagsVersion(prev => prev + 1)}
+          onFiltersChange={setListFilters}
+          actions={
+            <Button onClick={() => setIsExportOpen(true)} variant="outline" className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Exportar
+            </Button>
+          }
+        />
+      </div>
+
+      <ExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} onExport={exportFeedbacks} />
     </div>
   );
 };
\ No newline at end of file
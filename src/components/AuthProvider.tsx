@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, roleRank, type AppRole } from "@/hooks/use-auth";
+
+const fetchRole = async (userId: string): Promise<AppRole | null> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching user role:', error);
+    return null;
+  }
+
+  return (data || []).reduce<AppRole | null>((highest, { role }) =>
+    !highest || roleRank[role] > roleRank[highest] ? role : highest
+  , null);
+};
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const applySession = async (next: Session | null) => {
+      setSession(next);
+      setRole(next ? await fetchRole(next.user.id) : null);
+      setLoading(false);
+    };
+
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+
+    // Role lookups must not run inside the callback itself, supabase-js holds a lock while it runs
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setTimeout(() => applySession(next), 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const hasRole = (minimum: AppRole) => !!role && roleRank[role] >= roleRank[minimum];
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error };
+  };
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{ session, user: session?.user ?? null, role, loading, hasRole, signIn, signOut }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
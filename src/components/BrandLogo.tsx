@@ -0,0 +1,18 @@
+import { useState } from "react";
+
+// Bundled copy first, the old hosted file only if it hasn't been added to public/ yet
+const LOCAL_LOGO = "/logo-lardo.png";
+const REMOTE_LOGO = "https://servidores-estaticos-flax.vercel.app/logoLardo.png";
+
+export const BrandLogo = ({ style }: { style?: React.CSSProperties }) => {
+  const [src, setSrc] = useState(LOCAL_LOGO);
+
+  return (
+    <img
+      src={src}
+      alt="Logo"
+      style={{ width: '100px', height: '100px', ...style }}
+      onError={() => setSrc(REMOTE_LOGO)}
+    />
+  );
+};
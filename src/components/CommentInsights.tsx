@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toQueryBounds } from "@/lib/date-range";
+import {
+  commentSentimentColors,
+  commentSentimentLabels,
+  commentTopicLabels,
+  SENTIMENT_MISMATCH_HINT,
+  type CommentSentiment,
+  type CommentTopic
+} from "@/lib/comment-analysis";
+import type { SentimentFilter } from "@/lib/feedback-filters";
+import { AlertTriangle, MessageSquareText } from "lucide-react";
+
+type SentimentResult = Database["public"]["Functions"]["feedback_comment_sentiment"]["Returns"][number];
+type TopicResult = Database["public"]["Functions"]["feedback_comment_topics"]["Returns"][number];
+type WordResult = Database["public"]["Functions"]["comment_word_frequency"]["Returns"][number];
+
+const ALL = "all";
+
+interface CommentInsightsProps {
+  dateRange: DateRange | undefined;
+  refreshKey?: number;
+  onSelectSentiment: (filter: SentimentFilter) => void;
+  onSelectTopic: (topic: CommentTopic) => void;
+}
+
+export const CommentInsights = ({ dateRange, refreshKey, onSelectSentiment, onSelectTopic }: CommentInsightsProps) => {
+  const [sentiments, setSentiments] = useState<SentimentResult[]>([]);
+  const [topics, setTopics] = useState<TopicResult[]>([]);
+  const [words, setWords] = useState<WordResult[]>([]);
+  const [wordSentiment, setWordSentiment] = useState<CommentSentiment | typeof ALL>(ALL);
+
+  const fetchInsights = useCallback(async () => {
+    const { from, to } = toQueryBounds(dateRange);
+    const bounds = { _from: from ?? undefined, _to: to ?? undefined };
+
+    const [sentimentResult, topicResult] = await Promise.all([
+      supabase.rpc('feedback_comment_sentiment', bounds),
+      supabase.rpc('feedback_comment_topics', bounds)
+    ]);
+
+    if (sentimentResult.error || topicResult.error) {
+      console.error('Error fetching comment insights:', sentimentResult.error ?? topicResult.error);
+      return;
+    }
+    setSentiments(sentimentResult.data || []);
+    setTopics(topicResult.data || []);
+  }, [dateRange]);
+
+  useEffect(() => {
+    fetchInsights();
+  }, [fetchInsights, refreshKey]);
+
+  const fetchWords = useCallback(async () => {
+    const { from, to } = toQueryBounds(dateRange);
+    const { data, error } = await supabase.rpc('comment_word_frequency', {
+      _from: from ?? undefined,
+      _to: to ?? undefined,
+      _sentiment: wordSentiment === ALL ? undefined : wordSentiment
+    });
+
+    if (error) {
+      console.error('Error fetching word frequency:', error);
+      return;
+    }
+    setWords(data || []);
+  }, [dateRange, wordSentiment]);
+
+  useEffect(() => {
+    fetchWords();
+  }, [fetchWords, refreshKey]);
+
+  const counts: Record<CommentSentiment, number> = { positivo: 0, neutro: 0, negativo: 0 };
+  sentiments.forEach(row => {
+    counts[row.sentiment] = Number(row.volume);
+  });
+  const total = counts.positivo + counts.neutro + counts.negativo;
+  const mismatched = sentiments.reduce((sum, row) => sum + Number(row.mismatched), 0);
+  const percentage = (count: number) => total ? Math.round((count / total) * 100) : 0;
+
+  // Font size between 0.75rem and 1.75rem, relative to the most used word
+  const maxOccurrences = Math.max(1, ...words.map(word => Number(word.occurrences)));
+  const wordSize = (occurrences: number) => 0.75 + Number(occurrences) / maxOccurrences;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5 text-primary" />
+          O que dizem os comentários
+        </CardTitle>
+        <CardDescription>
+          {total} comentário(s) no período, com tom e temas identificados automaticamente. Clique para filtrar a lista.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {total === 0 ? (
+          <p className="text-muted-foreground">Nenhum comentário no período selecionado.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-4">
+              <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+                {(Object.keys(counts) as CommentSentiment[]).map(sentiment => (
+                  <div
+                    key={sentiment}
+                    className={commentSentimentColors[sentiment]}
+                    style={{ width: `${percentage(counts[sentiment])}%` }}
+                  />
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(counts) as CommentSentiment[]).map(sentiment => (
+                  <Button
+                    key={sentiment}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onSelectSentiment(sentiment)}
+                    disabled={counts[sentiment] === 0}
+                    className="flex items-center gap-2"
+                  >
+                    <span className={`h-2 w-2 rounded-full ${commentSentimentColors[sentiment]}`} />
+                    {commentSentimentLabels[sentiment]}: {counts[sentiment]} ({percentage(counts[sentiment])}%)
+                  </Button>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onSelectSentiment("mismatch")}
+                  disabled={mismatched === 0}
+                  title={SENTIMENT_MISMATCH_HINT}
+                  className="flex items-center gap-2 sm:ml-auto"
+                >
+                  <AlertTriangle className={`h-4 w-4 ${mismatched ? 'text-destructive' : ''}`} />
+                  {mismatched} contradiz(em) as notas
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="max-h-[300px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tema</TableHead>
+                      <TableHead className="text-right">Menções</TableHead>
+                      <TableHead className="text-right">Positivas</TableHead>
+                      <TableHead className="text-right">Negativas</TableHead>
+                      <TableHead className="text-right">Média</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {topics.map(topic => (
+                      <TableRow key={topic.topic} className="cursor-pointer" onClick={() => onSelectTopic(topic.topic)}>
+                        <TableCell className="font-medium">{commentTopicLabels[topic.topic]}</TableCell>
+                        <TableCell className="text-right">{topic.mentions}</TableCell>
+                        <TableCell className="text-right text-green-600">{topic.positive}</TableCell>
+                        <TableCell className="text-right text-destructive">{topic.negative}</TableCell>
+                        <TableCell className="text-right">
+                          {topic.overall_average === null ? '—' : Number(topic.overall_average).toFixed(1)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {topics.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          Nenhum tema reconhecido nos comentários.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">Palavras mais usadas</span>
+                  <Select value={wordSentiment} onValueChange={(value: CommentSentiment | typeof ALL) => setWordSentiment(value)}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Todos os comentários</SelectItem>
+                      {(Object.keys(commentSentimentLabels) as CommentSentiment[]).map(sentiment => (
+                        <SelectItem key={sentiment} value={sentiment}>Tom {commentSentimentLabels[sentiment].toLowerCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {words.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma palavra para mostrar.</p>
+                ) : (
+                  <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                    {words.map(word => (
+                      <span
+                        key={word.word}
+                        className="text-primary leading-tight"
+                        style={{ fontSize: `${wordSize(word.occurrences)}rem` }}
+                        title={`${word.occurrences} vez(es) em ${word.feedbacks} avaliação(ões)`}
+                      >
+                        {word.word}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,13 +1,24 @@
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { StarRating } from "./StarRating";
+import { NpsScale } from "./NpsScale";
 import { useToast } from "@/hooks/use-toast";
-import { User, Phone, AtSign, Hash } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { User, Phone, AtSign, Hash, ShieldCheck, MapPin } from "lucide-react";
+import { formatCPF, isValidCPF, normalizeCPF } from "@/lib/cpf";
+import { formatPhone, isValidPhone, toE164 } from "@/lib/phone";
+import { CONSENT_POLICY_VERSION, consentTexts } from "@/lib/consent";
+import { NPS_QUESTION } from "@/lib/nps";
+import { parseTableNumber } from "@/lib/dining-tables";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { isPermanentError, sendFeedbackSubmission, type FeedbackSubmission } from "@/lib/submit-feedback";
 
 interface CustomerData {
   name: string;
@@ -17,17 +28,29 @@ interface CustomerData {
 }
 
 interface RatingData {
-  foodQuality: number;
-  service: number;
-  waitTime: number;
-  cleanliness: number;
-  valueForMoney: number;
-  ambiance: number;
+  // Stars per rating_criteria.id, 0 means not rated yet
+  scores: Record<string, number>;
+  // 0-10 answer to the recommendation question, null until picked
+  nps: number | null;
   comment: string;
 }
 
-export const CustomerForm = () => {
+interface ConsentData {
+  dataUsage: boolean;
+  marketing: boolean;
+}
+
+interface CustomerFormProps {
+  // Replaces the success toast, used by the kiosk to show its own thank-you screen
+  onSubmitted?: () => void;
+}
+
+export const CustomerForm = ({ onSubmitted }: CustomerFormProps) => {
   const { toast } = useToast();
+  const { enqueue } = useOfflineQueue();
+  const [searchParams] = useSearchParams();
+  // Set when the form was opened from a table's QR code, kept across submissions at that table
+  const tableNumber = parseTableNumber(searchParams.get('mesa'));
   const [customer, setCustomer] = useState<CustomerData>({
     name: "",
     cpf: "",
@@ -36,32 +59,26 @@ export const CustomerForm = () => {
   });
 
   const [ratings, setRatings] = useState<RatingData>({
-    foodQuality: 0,
-    service: 0,
-    waitTime: 0,
-    cleanliness: 0,
-    valueForMoney: 0,
-    ambiance: 0,
+    scores: {},
+    nps: null,
     comment: ""
   });
 
+  const [consent, setConsent] = useState<ConsentData>({
+    dataUsage: false,
+    marketing: false
+  });
+
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const ratingCriteria = [
-    { key: "foodQuality" as keyof RatingData, label: "Qualidade da Comida", required: true },
-    { key: "service" as keyof RatingData, label: "Atendimento da Equipe", required: true },
-    { key: "waitTime" as keyof RatingData, label: "Tempo de Espera", required: true },
-    { key: "cleanliness" as keyof RatingData, label: "Higiene e Limpeza", required: true },
-    { key: "valueForMoney" as keyof RatingData, label: "Custo-Benefício", required: true },
-    { key: "ambiance" as keyof RatingData, label: "Ambiente e Conforto", required: true }
-  ];
+  const { criteria: ratingCriteria } = useRatingCriteria();
 
   const handleCustomerChange = (field: keyof CustomerData, value: string) => {
     setCustomer(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleRatingChange = (field: keyof RatingData, value: number | string) => {
-    setRatings(prev => ({ ...prev, [field]: value }));
+  const handleRatingChange = (criterionId: string, value: number) => {
+    setRatings(prev => ({ ...prev, scores: { ...prev.scores, [criterionId]: value } }));
   };
 
   const validateForm = () => {
@@ -74,14 +91,52 @@ export const CustomerForm = () => {
       return false;
     }
 
+    if (!isValidCPF(customer.cpf)) {
+      toast({
+        title: "CPF inválido",
+        description: "Confira os números do seu CPF e tente novamente.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (!isValidPhone(customer.phone)) {
+      toast({
+        title: "Telefone inválido",
+        description: "Informe o DDD e o número, por exemplo (11) 99999-9999.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (!consent.dataUsage) {
+      toast({
+        title: "Consentimento necessário",
+        description: "Para enviar a avaliação, autorize o uso dos seus dados.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
     const missingRatings = ratingCriteria.filter(criteria => 
-      typeof ratings[criteria.key] === 'number' && ratings[criteria.key] === 0
+      criteria.required && !ratings.scores[criteria.id]
     );
 
-    if (missingRatings.length > 0) {
+    const hasAnyRating = ratingCriteria.some(criteria => ratings.scores[criteria.id] > 0);
+
+    if (missingRatings.length > 0 || !hasAnyRating) {
       toast({
         title: "Avaliações obrigatórias",
-        description: "Por favor, avalie todos os critérios com pelo menos 1 estrela.",
+        description: "Por favor, avalie todos os critérios obrigatórios com pelo menos 1 estrela.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (ratings.nps === null) {
+      toast({
+        title: "Recomendação obrigatória",
+        description: "Conte pra gente de 0 a 10 o quanto você recomendaria o Lardo.",
         variant: "destructive"
       });
       return false;
@@ -98,38 +153,75 @@ export const CustomerForm = () => {
     setIsSubmitting(true);
     
     try {
-      const { error } = await supabase.from('feedbacks').insert({
-        nome: customer.name,
-        cpf: customer.cpf,
-        telefone: customer.phone,
-        instagram: customer.instagram,
-        qualidade_comida: ratings.foodQuality,
-        atendimento: ratings.service,
-        tempo_espera: ratings.waitTime,
-        higiene_limpeza: ratings.cleanliness,
-        custo_beneficio: ratings.valueForMoney,
-        ambiente_conforto: ratings.ambiance,
-        comentario: ratings.comment || null
-      });
+      // Generated here because the anon role cannot read the row back after inserting it,
+      // it also lets a retried submission be recognised as the same one
+      const feedbackId = crypto.randomUUID();
 
-      if (error) throw error;
-      
-      toast({
-        title: "Avaliação enviada com sucesso!",
-        description: "Obrigado pelo seu feedback. Sua opinião é muito importante para nós.",
-      });
+      const submission: FeedbackSubmission = {
+        id: feedbackId,
+        feedback: {
+          id: feedbackId,
+          nome: customer.name,
+          cpf: normalizeCPF(customer.cpf),
+          telefone: toE164(customer.phone),
+          instagram: customer.instagram,
+          nps_score: ratings.nps,
+          table_number: tableNumber,
+          comentario: ratings.comment || null
+        },
+        ratings: ratingCriteria
+          .filter(criteria => ratings.scores[criteria.id] > 0)
+          .map(criteria => ({
+            feedback_id: feedbackId,
+            criterion_id: criteria.id,
+            rating: ratings.scores[criteria.id]
+          })),
+        consent: {
+          feedback_id: feedbackId,
+          cpf: normalizeCPF(customer.cpf),
+          policy_version: CONSENT_POLICY_VERSION,
+          data_usage: consent.dataUsage,
+          marketing: consent.marketing,
+          user_agent: navigator.userAgent
+        }
+      };
+
+      // Flaky Wi-Fi shouldn't cost us the feedback: anything that isn't a validation error is queued
+      let queued = false;
+      if (navigator.onLine) {
+        try {
+          await sendFeedbackSubmission(submission);
+        } catch (error) {
+          if (isPermanentError(error)) throw error;
+          console.error('Error submitting feedback, queueing for retry:', error);
+          queued = true;
+        }
+      } else {
+        queued = true;
+      }
+
+      if (queued) {
+        await enqueue(submission);
+      }
 
       // Reset form
       setCustomer({ name: "", cpf: "", phone: "", instagram: "" });
-      setRatings({
-        foodQuality: 0,
-        service: 0,
-        waitTime: 0,
-        cleanliness: 0,
-        valueForMoney: 0,
-        ambiance: 0,
-        comment: ""
-      });
+      setRatings({ scores: {}, nps: null, comment: "" });
+      setConsent({ dataUsage: false, marketing: false });
+
+      if (onSubmitted) {
+        onSubmitted();
+      } else if (queued) {
+        toast({
+          title: "Avaliação salva!",
+          description: "Estamos sem conexão agora. Ela será enviada automaticamente assim que a internet voltar.",
+        });
+      } else {
+        toast({
+          title: "Avaliação enviada com sucesso!",
+          description: "Obrigado pelo seu feedback. Sua opinião é muito importante para nós.",
+        });
+      }
     } catch (error) {
       console.error('Error submitting feedback:', error);
       toast({
@@ -151,6 +243,12 @@ export const CustomerForm = () => {
         <p className="text-muted-foreground text-lg">
           Conta pra gente como foi sua aventura gastronômica 🍽️
         </p>
+        {tableNumber && (
+          <Badge variant="secondary" className="mt-3 inline-flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            Mesa {tableNumber}
+          </Badge>
+        )}
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-8">
@@ -185,9 +283,11 @@ export const CustomerForm = () => {
                   <Input
                     id="cpf"
                     type="text"
+                    inputMode="numeric"
                     placeholder="000.000.000-00"
+                    maxLength={14}
                     value={customer.cpf}
-                    onChange={(e) => handleCustomerChange("cpf", e.target.value)}
+                    onChange={(e) => handleCustomerChange("cpf", formatCPF(e.target.value))}
                     className="pl-10"
                     required
                   />
@@ -200,9 +300,11 @@ export const CustomerForm = () => {
                   <Input
                     id="phone"
                     type="tel"
+                    inputMode="tel"
                     placeholder="(11) 99999-9999"
+                    maxLength={15}
                     value={customer.phone}
-                    onChange={(e) => handleCustomerChange("phone", e.target.value)}
+                    onChange={(e) => handleCustomerChange("phone", formatPhone(e.target.value))}
                     className="pl-10"
                     required
                   />
@@ -238,13 +340,18 @@ export const CustomerForm = () => {
           <CardContent className="space-y-6">
             <div className="grid gap-6">
               {ratingCriteria.map((criteria) => (
-                <div key={criteria.key} className="flex items-center justify-between">
-                  <Label className="text-base font-medium min-w-0 flex-1">
-                    {criteria.label}
-                  </Label>
+                <div key={criteria.id} className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <Label className="text-base font-medium">
+                      {criteria.label}{criteria.required ? "" : " (opcional)"}
+                    </Label>
+                    {criteria.description && (
+                      <p className="text-sm text-muted-foreground">{criteria.description}</p>
+                    )}
+                  </div>
                   <StarRating
-                    value={ratings[criteria.key] as number}
-                    onChange={(value) => handleRatingChange(criteria.key, value)}
+                    value={ratings.scores[criteria.id] ?? 0}
+                    onChange={(value) => handleRatingChange(criteria.id, value)}
                     name={criteria.label}
                     size="md"
                   />
@@ -252,13 +359,21 @@ export const CustomerForm = () => {
               ))}
             </div>
 
+            <div className="space-y-3">
+              <Label className="text-base font-medium">{NPS_QUESTION}</Label>
+              <NpsScale
+                value={ratings.nps}
+                onChange={(value) => setRatings(prev => ({ ...prev, nps: value }))}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="comment">Comentário Adicional</Label>
               <Textarea
                 id="comment"
                 placeholder="Conte-nos mais sobre sua experiência... (opcional)"
                 value={ratings.comment}
-                onChange={(e) => handleRatingChange("comment", e.target.value)}
+                onChange={(e) => setRatings(prev => ({ ...prev, comment: e.target.value }))}
                 rows={4}
                 className="resize-none"
               />
@@ -266,6 +381,43 @@ export const CustomerForm = () => {
           </CardContent>
         </Card>
 
+        {/* Consent Section */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-primary">
+              <ShieldCheck className="h-5 w-5" />
+              Privacidade
+            </CardTitle>
+            <CardDescription>
+              Seus dados são tratados conforme a LGPD (versão da política: {CONSENT_POLICY_VERSION})
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="consent-data-usage"
+                checked={consent.dataUsage}
+                onCheckedChange={(checked) => setConsent(prev => ({ ...prev, dataUsage: checked === true }))}
+                className="mt-0.5"
+              />
+              <Label htmlFor="consent-data-usage" className="text-sm font-normal leading-relaxed">
+                {consentTexts.dataUsage} *
+              </Label>
+            </div>
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="consent-marketing"
+                checked={consent.marketing}
+                onCheckedChange={(checked) => setConsent(prev => ({ ...prev, marketing: checked === true }))}
+                className="mt-0.5"
+              />
+              <Label htmlFor="consent-marketing" className="text-sm font-normal leading-relaxed">
+                {consentTexts.marketing}
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+
         <Button 
           type="submit" 
           className="w-full h-12 text-lg font-semibold shadow-elegant"
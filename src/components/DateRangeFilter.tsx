@@ -0,0 +1,63 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarIcon } from "lucide-react";
+import { periodPresetLabels, resolvePreset, type PeriodPreset } from "@/lib/date-range";
+
+interface DateRangeFilterProps {
+  preset: PeriodPreset;
+  range: DateRange | undefined;
+  onChange: (preset: PeriodPreset, range: DateRange | undefined) => void;
+}
+
+export const DateRangeFilter = ({ preset, range, onChange }: DateRangeFilterProps) => {
+  const rangeLabel = range?.from
+    ? `${format(range.from, "dd/MM/yyyy")}${range.to ? ` – ${format(range.to, "dd/MM/yyyy")}` : ""}`
+    : "Escolha as datas";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={preset}
+        onValueChange={(value: PeriodPreset) => onChange(value, value === "custom" ? range : resolvePreset(value))}
+      >
+        <SelectTrigger className="w-[170px]">
+          <CalendarIcon className="h-4 w-4 mr-2" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(periodPresetLabels) as PeriodPreset[]).map((key) => (
+            <SelectItem key={key} value={key}>{periodPresetLabels[key]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {preset === "custom" && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-[230px] justify-start font-normal">
+              <CalendarIcon className="h-4 w-4 mr-2" />
+              {rangeLabel}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="range"
+              locale={ptBR}
+              numberOfMonths={2}
+              selected={range}
+              defaultMonth={range?.from}
+              onSelect={(next) => onChange("custom", next)}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { csvDelimiterLabels, type CSVDelimiter } from "@/lib/csv";
+import {
+  exportFormatLabels,
+  exportScopeLabels,
+  feedbackExportColumns,
+  type ExportFormat,
+  type ExportScope,
+  type FeedbackExportOptions
+} from "@/lib/feedback-export";
+import { exportPrivacyLabels, PII_REVEAL_ROLE, type ExportPrivacy } from "@/lib/pii";
+import { Download } from "lucide-react";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: FeedbackExportOptions) => Promise<void>;
+}
+
+export const ExportDialog = ({ open, onOpenChange, onExport }: ExportDialogProps) => {
+  const { hasRole } = useAuth();
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  // Personal data stays out unless someone deliberately picks otherwise
+  const [privacy, setPrivacy] = useState<ExportPrivacy>("omit");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [scope, setScope] = useState<ExportScope>("period");
+  const [delimiter, setDelimiter] = useState<CSVDelimiter>(";");
+  // Unticked rather than ticked columns, so criteria loaded later start selected
+  const [excludedColumns, setExcludedColumns] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const columns = feedbackExportColumns(criteria);
+  const selectedColumns = columns.map(column => column.key).filter(key => !excludedColumns.includes(key));
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setExcludedColumns(prev => checked ? prev.filter(item => item !== key) : [...prev, key]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    await onExport({ format, privacy, scope, delimiter, columns: selectedColumns });
+    setIsExporting(false);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exportar avaliações</DialogTitle>
+          <DialogDescription>Escolha o que entra no arquivo e como os dados pessoais dos clientes aparecem.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label className="font-medium">Avaliações</Label>
+          <RadioGroup value={scope} onValueChange={(value: ExportScope) => setScope(value)} className="space-y-2">
+            {(Object.keys(exportScopeLabels) as ExportScope[]).map(key => (
+              <div key={key} className="flex items-start gap-3">
+                <RadioGroupItem value={key} id={`export-scope-${key}`} className="mt-1" />
+                <Label htmlFor={`export-scope-${key}`} className="font-normal">
+                  <span className="font-medium">{exportScopeLabels[key].label}</span>
+                  <span className="block text-sm text-muted-foreground">{exportScopeLabels[key].description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="font-medium">Dados pessoais</Label>
+          <RadioGroup value={privacy} onValueChange={(value: ExportPrivacy) => setPrivacy(value)} className="space-y-2">
+            {(Object.keys(exportPrivacyLabels) as ExportPrivacy[]).map(key => {
+              const disabled = key === "full" && !hasRole(PII_REVEAL_ROLE);
+              return (
+                <div key={key} className={`flex items-start gap-3 ${disabled ? "opacity-50" : ""}`}>
+                  <RadioGroupItem value={key} id={`export-privacy-${key}`} disabled={disabled} className="mt-1" />
+                  <Label htmlFor={`export-privacy-${key}`} className="font-normal">
+                    <span className="font-medium">{exportPrivacyLabels[key].label}</span>
+                    <span className="block text-sm text-muted-foreground">
+                      {disabled ? "Disponível para gerentes e administradores." : exportPrivacyLabels[key].description}
+                    </span>
+                  </Label>
+                </div>
+              );
+            })}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="font-medium">Colunas</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {columns.map(column => (
+              <div key={column.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-column-${column.key}`}
+                  checked={!excludedColumns.includes(column.key)}
+                  onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                />
+                <Label htmlFor={`export-column-${column.key}`} className="font-normal text-sm">{column.label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-format" className="font-medium">Formato</Label>
+            <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(exportFormatLabels) as ExportFormat[]).map(key => (
+                  <SelectItem key={key} value={key}>{exportFormatLabels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {format === "csv" && (
+            <div className="space-y-2">
+              <Label htmlFor="export-delimiter" className="font-medium">Separador</Label>
+              <Select value={delimiter} onValueChange={(value: CSVDelimiter) => setDelimiter(value)}>
+                <SelectTrigger id="export-delimiter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(csvDelimiterLabels) as CSVDelimiter[]).map(key => (
+                    <SelectItem key={key} value={key}>{csvDelimiterLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        {format === "xlsx" && (
+          <p className="text-sm text-muted-foreground">
+            A planilha traz também as abas de média por critério e distribuição de notas
+            {scope === "filtered" ? ", calculadas sobre todo o período, sem os filtros da lista." : "."}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || (selectedColumns.length === 0 && privacy === "omit")}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Exportar {exportFormatLabels[format]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Star, MessageSquare, ClipboardList, AlertTriangle } from "lucide-react";
+import type { StaffMember } from "@/hooks/use-staff-directory";
+import {
+  criterionLabel,
+  criterionRating,
+  feedbackStatusLabels,
+  isNegativeRating,
+  type FeedbackListItem,
+  type FeedbackStatus,
+  type RatingCriterion
+} from "@/lib/feedback";
+import { npsCategory } from "@/lib/nps";
+import { areaLabels } from "@/lib/dining-tables";
+import { commentSentimentLabels, commentTopicLabels, SENTIMENT_MISMATCH_HINT, type CommentSentiment } from "@/lib/comment-analysis";
+import { customerPath } from "@/lib/customers";
+import { tagBadgeStyle, type Tag } from "@/lib/tags";
+import { FeedbackCaseSheet } from "./FeedbackCaseSheet";
+import { MaskedContact } from "./MaskedContact";
+import { FeedbackTagMenu } from "./FeedbackTagMenu";
+
+const statusBadgeVariant: Record<FeedbackStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  novo: "default",
+  em_analise: "secondary",
+  contatado: "secondary",
+  resolvido: "outline"
+};
+
+const sentimentBadgeVariant: Record<CommentSentiment, "secondary" | "outline" | "destructive"> = {
+  positivo: "secondary",
+  neutro: "outline",
+  negativo: "destructive"
+};
+
+const npsBadgeVariant = {
+  promoter: "secondary",
+  passive: "outline",
+  detractor: "destructive"
+} as const;
+
+interface FeedbackCardProps {
+  feedback: FeedbackListItem;
+  criteria: RatingCriterion[];
+  staff: StaffMember[];
+  tags: Tag[];
+  onCaseUpdated: (feedbackId: string, changes: Pick<FeedbackListItem, "status" | "assignee_id" | "resolution_reason">) => void;
+  onTagsChanged: (feedbackId: string, tagIds: string[]) => void;
+  // Picked for bulk tagging in the list
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+}
+
+export const FeedbackCard = ({
+  feedback,
+  criteria,
+  staff,
+  tags,
+  onCaseUpdated,
+  onTagsChanged,
+  selected,
+  onSelectedChange
+}: FeedbackCardProps) => {
+  const [isCaseOpen, setIsCaseOpen] = useState(false);
+  const avgRating = Number(feedback.average_rating);
+  const isNegative = isNegativeRating(avgRating);
+  const tagIds = feedback.tag_ids ?? [];
+
+  return (
+    <Card className={`${isNegative ? 'border-destructive/50 bg-destructive/5' : ''}`}>
+      <CardContent className="pt-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-2">
+              <Checkbox
+                checked={selected}
+                onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                aria-label={`Selecionar avaliação de ${feedback.nome}`}
+              />
+              <h4 className="font-semibold">
+                {feedback.anonymized_at || !feedback.cpf_hash ? feedback.nome : (
+                  <Link to={customerPath(feedback.cpf_hash)} className="hover:text-primary hover:underline">
+                    {feedback.nome}
+                  </Link>
+                )}
+              </h4>
+              <Badge variant="outline">@{feedback.instagram}</Badge>
+              <span className="text-sm text-muted-foreground">
+                {new Date(feedback.created_at).toLocaleDateString('pt-BR')}
+              </span>
+              {feedback.table_number && (
+                <Badge variant="secondary">
+                  Mesa {feedback.table_number}{feedback.area ? ` · ${areaLabels[feedback.area]}` : ''}
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3 mb-2 text-sm">
+              {feedback.marketing_opt_in ? (
+                <MaskedContact feedbackId={feedback.id} telefone={feedback.telefone} allowContact />
+              ) : (
+                <Badge variant="secondary">Não aceitou contato</Badge>
+              )}
+            </div>
+            
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+              {criteria.filter(criterion => criterionRating(feedback, criterion.key) !== null).map((criterion) => (
+                <div key={criterion.id} className="flex justify-between">
+                  <span className="text-muted-foreground">{criterionLabel(criterion)}:</span>
+                  <div className="flex items-center gap-1">
+                    <span>{criterionRating(feedback, criterion.key)}</span>
+                    <Star className="h-3 w-3 fill-primary text-primary" />
+                  </div>
+                </div>
+              ))}
+            </div>
+            
+            {feedback.comentario && (
+              <div className="mt-3 p-3 bg-muted rounded-md">
+                <div className="flex items-start gap-2">
+                  <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                  <p className="text-sm">{feedback.comentario}</p>
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-1">
+                  {feedback.comment_sentiment && (
+                    <Badge variant={sentimentBadgeVariant[feedback.comment_sentiment]}>
+                      Tom {commentSentimentLabels[feedback.comment_sentiment].toLowerCase()}
+                    </Badge>
+                  )}
+                  {feedback.comment_topics?.map(topic => (
+                    <Badge key={topic} variant="outline">{commentTopicLabels[topic]}</Badge>
+                  ))}
+                  {feedback.sentiment_mismatch && (
+                    <Badge variant="destructive" className="flex items-center gap-1" title={SENTIMENT_MISMATCH_HINT}>
+                      <AlertTriangle className="h-3 w-3" />
+                      Contradiz as notas
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={statusBadgeVariant[feedback.status]}>{feedbackStatusLabels[feedback.status]}</Badge>
+              {feedback.assignee_id && (
+                <span className="text-muted-foreground">
+                  Responsável: {staff.find(member => member.user_id === feedback.assignee_id)?.email ?? "—"}
+                </span>
+              )}
+              {feedback.status === "resolvido" && feedback.resolution_reason && (
+                <span className="text-muted-foreground">· {feedback.resolution_reason}</span>
+              )}
+              <Button variant="ghost" size="sm" className="flex items-center gap-1" onClick={() => setIsCaseOpen(true)}>
+                <ClipboardList className="h-4 w-4" />
+                Acompanhar
+              </Button>
+              <FeedbackTagMenu
+                feedbackId={feedback.id}
+                tags={tags}
+                tagIds={tagIds}
+                onChange={(ids) => onTagsChanged(feedback.id, ids)}
+              />
+            </div>
+
+            {tagIds.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-1">
+                {tagIds.map(id => tags.find(tag => tag.id === id)).filter(Boolean).map(tag => (
+                  <Badge key={tag.id} style={tagBadgeStyle(tag.color)}>{tag.name}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="text-right">
+            <div className="text-2xl font-bold text-primary">{avgRating.toFixed(1)}</div>
+            <div className="flex justify-end">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Star 
+                  key={i} 
+                  className={`h-4 w-4 ${i < Math.round(avgRating) ? 'fill-primary text-primary' : 'text-muted-foreground'}`} 
+                />
+              ))}
+            </div>
+            {feedback.nps_score !== null && (
+              <Badge variant={npsBadgeVariant[npsCategory(feedback.nps_score)]} className="mt-2">
+                NPS {feedback.nps_score}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <FeedbackCaseSheet
+        feedback={feedback}
+        staff={staff}
+        open={isCaseOpen}
+        onOpenChange={setIsCaseOpen}
+        onUpdated={(changes) => onCaseUpdated(feedback.id, changes)}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import type { StaffMember } from "@/hooks/use-staff-directory";
+import { feedbackStatusLabels, type FeedbackListItem, type FeedbackStatus } from "@/lib/feedback";
+import { History, MessageSquarePlus } from "lucide-react";
+
+type FeedbackNote = Tables<"feedback_notes">;
+type CaseEvent = Tables<"feedback_case_events">;
+type CaseFields = Pick<FeedbackListItem, "status" | "assignee_id" | "resolution_reason">;
+
+const UNASSIGNED = "none";
+
+interface FeedbackCaseSheetProps {
+  feedback: FeedbackListItem;
+  staff: StaffMember[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: (changes: CaseFields) => void;
+}
+
+export const FeedbackCaseSheet = ({ feedback, staff, open, onOpenChange, onUpdated }: FeedbackCaseSheetProps) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<FeedbackStatus>(feedback.status);
+  const [assigneeId, setAssigneeId] = useState(feedback.assignee_id ?? UNASSIGNED);
+  const [resolutionReason, setResolutionReason] = useState(feedback.resolution_reason ?? "");
+  const [notes, setNotes] = useState<FeedbackNote[]>([]);
+  const [events, setEvents] = useState<CaseEvent[]>([]);
+  const [newNote, setNewNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setStatus(feedback.status);
+    setAssigneeId(feedback.assignee_id ?? UNASSIGNED);
+    setResolutionReason(feedback.resolution_reason ?? "");
+  }, [open, feedback.status, feedback.assignee_id, feedback.resolution_reason]);
+
+  const fetchThread = useCallback(async () => {
+    const [notesResult, eventsResult] = await Promise.all([
+      supabase.from('feedback_notes').select('*').eq('feedback_id', feedback.id).order('created_at', { ascending: true }),
+      supabase.from('feedback_case_events').select('*').eq('feedback_id', feedback.id).order('created_at', { ascending: false })
+    ]);
+
+    if (notesResult.error || eventsResult.error) {
+      console.error('Error fetching feedback case thread:', notesResult.error ?? eventsResult.error);
+      return;
+    }
+    setNotes(notesResult.data || []);
+    setEvents(eventsResult.data || []);
+  }, [feedback.id]);
+
+  useEffect(() => {
+    if (open) fetchThread();
+  }, [open, fetchThread]);
+
+  const staffEmail = (userId: string | null) =>
+    staff.find(member => member.user_id === userId)?.email ?? "Usuário removido";
+
+  const describeEvent = (event: CaseEvent) => {
+    if (event.field === "status") {
+      return `Status: ${feedbackStatusLabels[event.old_value as FeedbackStatus] ?? "—"} → ${feedbackStatusLabels[event.new_value as FeedbackStatus]}`;
+    }
+    if (event.field === "assignee") {
+      return event.new_value ? `Atribuído a ${staffEmail(event.new_value)}` : "Responsável removido";
+    }
+    return event.new_value ? `Motivo da resolução: ${event.new_value}` : "Motivo da resolução removido";
+  };
+
+  const handleSave = async () => {
+    if (status === "resolvido" && !resolutionReason.trim()) {
+      toast({
+        title: "Motivo obrigatório",
+        description: "Descreva como a avaliação foi resolvida.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const changes: CaseFields = {
+      status,
+      assignee_id: assigneeId === UNASSIGNED ? null : assigneeId,
+      resolution_reason: status === "resolvido" ? resolutionReason.trim() : null
+    };
+
+    setIsSaving(true);
+    const { error } = await supabase.from('feedback_cases').update(changes).eq('feedback_id', feedback.id);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error updating feedback case:', error);
+      toast({
+        title: "Erro ao salvar acompanhamento",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onUpdated(changes);
+    toast({ title: "Acompanhamento atualizado" });
+    fetchThread();
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newNote.trim()) return;
+
+    setIsSaving(true);
+    // author_id defaults to the signed-in user
+    const { error } = await supabase.from('feedback_notes').insert({
+      feedback_id: feedback.id,
+      body: newNote.trim()
+    });
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error adding feedback note:', error);
+      toast({
+        title: "Erro ao adicionar nota",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setNewNote("");
+    fetchThread();
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Acompanhamento</SheetTitle>
+          <SheetDescription>
+            {feedback.nome} · {new Date(feedback.created_at).toLocaleDateString('pt-BR')} · nota {Number(feedback.average_rating).toFixed(1)}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value: FeedbackStatus) => setStatus(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(feedbackStatusLabels) as FeedbackStatus[]).map(key => (
+                    <SelectItem key={key} value={key}>{feedbackStatusLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Responsável</Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+                  {staff.map(member => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{member.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {status === "resolvido" && (
+            <div className="space-y-2">
+              <Label htmlFor="resolution-reason">Motivo da resolução *</Label>
+              <Textarea
+                id="resolution-reason"
+                placeholder="Ex.: cliente contatado, cortesia oferecida na próxima visita"
+                value={resolutionReason}
+                onChange={(e) => setResolutionReason(e.target.value)}
+                rows={2}
+                className="resize-none"
+              />
+            </div>
+          )}
+
+          <Button onClick={handleSave} disabled={isSaving} className="w-full">
+            Salvar
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4 py-6">
+          <h3 className="font-semibold flex items-center gap-2">
+            <MessageSquarePlus className="h-4 w-4" />
+            Notas internas
+          </h3>
+          {notes.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma nota ainda.</p>
+          )}
+          {notes.map(note => (
+            <div key={note.id} className="p-3 bg-muted rounded-md space-y-1">
+              <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+              <p className="text-xs text-muted-foreground">
+                {staffEmail(note.author_id)} · {new Date(note.created_at).toLocaleString('pt-BR')}
+              </p>
+            </div>
+          ))}
+          <form onSubmit={handleAddNote} className="space-y-2">
+            <Textarea
+              placeholder="Escreva uma nota para a equipe..."
+              value={newNote}
+              onChange={(e) => setNewNote(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+            <Button type="submit" variant="outline" disabled={isSaving || !newNote.trim()}>
+              Adicionar nota
+            </Button>
+          </form>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3 py-6">
+          <h3 className="font-semibold flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Histórico
+          </h3>
+          {events.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma alteração registrada.</p>
+          )}
+          {events.map(event => (
+            <div key={event.id} className="text-sm">
+              <p>{describeEvent(event)}</p>
+              <p className="text-xs text-muted-foreground">
+                {event.actor_id ? staffEmail(event.actor_id) : "Sistema"} · {new Date(event.created_at).toLocaleString('pt-BR')}
+              </p>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
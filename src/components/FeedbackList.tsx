@@ -0,0 +1,494 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  feedbackListQuery,
+  type AssigneeFilter,
+  type ContactFilter,
+  type FeedbackListFilters,
+  type LocationFilter,
+  type NpsFilter,
+  type SentimentFilter,
+  type SortBy,
+  type StatusFilter,
+  type TagFilter,
+  type TopicFilter
+} from "@/lib/feedback-filters";
+import { npsCategoryLabels, type NpsCategory } from "@/lib/nps";
+import { areaLabels, type DiningArea } from "@/lib/dining-tables";
+import { commentSentimentLabels, commentTopicLabels, type CommentSentiment, type CommentTopic } from "@/lib/comment-analysis";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { useDiningTables } from "@/hooks/use-dining-tables";
+import { useStaffDirectory } from "@/hooks/use-staff-directory";
+import { useTags } from "@/hooks/use-tags";
+import { useAuth } from "@/hooks/use-auth";
+import { feedbackStatusLabels, type FeedbackListItem, type FeedbackStatus } from "@/lib/feedback";
+import { tagBadgeStyle } from "@/lib/tags";
+import {
+  MessageSquare,
+  Filter,
+  MapPin,
+  Megaphone,
+  Phone,
+  Search,
+  RefreshCw,
+  ClipboardList,
+  UserCheck,
+  Smile,
+  Tags,
+  Tag as TagIcon,
+  X
+} from "lucide-react";
+import { FeedbackCard } from "./FeedbackCard";
+
+const PAGE_SIZE = 20;
+
+interface FeedbackListProps {
+  dateRange: DateRange | undefined;
+  // Changes whenever a new feedback arrives over realtime
+  refreshKey?: number;
+  // Controlled by the parent so the NPS summary can drill down into detractors
+  npsFilter: NpsFilter;
+  onNpsFilterChange: (filter: NpsFilter) => void;
+  locationFilter: LocationFilter;
+  onLocationFilterChange: (filter: LocationFilter) => void;
+  // Also controlled by the parent, for the drill-down from the comment insights
+  sentimentFilter: SentimentFilter;
+  onSentimentFilterChange: (filter: SentimentFilter) => void;
+  topicFilter: TopicFilter;
+  onTopicFilterChange: (filter: TopicFilter) => void;
+  // And for the drill-down from the per-tag comparison
+  tagFilter: TagFilter;
+  onTagFilterChange: (filter: TagFilter) => void;
+  // Called after tags are added or removed, so per-tag aggregates can refetch
+  onTagsChanged?: () => void;
+  actions?: React.ReactNode;
+  // Reports the active filters, e.g. to export exactly what's listed
+  onFiltersChange?: (filters: FeedbackListFilters) => void;
+}
+
+export const FeedbackList = ({
+  dateRange,
+  refreshKey,
+  npsFilter,
+  onNpsFilterChange,
+  locationFilter,
+  onLocationFilterChange,
+  sentimentFilter,
+  onSentimentFilterChange,
+  topicFilter,
+  onTopicFilterChange,
+  tagFilter,
+  onTagFilterChange,
+  onTagsChanged,
+  actions,
+  onFiltersChange
+}: FeedbackListProps) => {
+  const { toast } = useToast();
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  const { tables } = useDiningTables();
+  const staff = useStaffDirectory();
+  const { tags } = useTags();
+  const { user } = useAuth();
+  const [items, setItems] = useState<FeedbackListItem[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [pagesLoaded, setPagesLoaded] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasPendingNew, setHasPendingNew] = useState(false);
+  const [sortBy, setSortBy] = useState<SortBy>("recent");
+  const [minRatingFilter, setMinRatingFilter] = useState<string>("all");
+  const [contactFilter, setContactFilter] = useState<ContactFilter>("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  // Feedbacks picked for bulk tagging, only among the ones loaded
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isTagging, setIsTagging] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Ignores responses from requests issued before the filters last changed
+  const requestIdRef = useRef(0);
+  // Last realtime refresh acted on, so reloading for other reasons doesn't count as one
+  const handledRefreshKeyRef = useRef(refreshKey);
+
+  // By offset rather than items.length, which the dedupe in loadPage can keep below the count
+  const hasMore = pagesLoaded * PAGE_SIZE < totalCount;
+
+  const filters = useMemo<FeedbackListFilters>(() => ({
+    dateRange,
+    sortBy,
+    minRating: minRatingFilter,
+    contact: contactFilter,
+    nps: npsFilter,
+    location: locationFilter,
+    sentiment: sentimentFilter,
+    topic: topicFilter,
+    tag: tagFilter,
+    status: statusFilter,
+    assignee: assigneeFilter,
+    search
+  }), [dateRange, sortBy, minRatingFilter, contactFilter, npsFilter, locationFilter, sentimentFilter, topicFilter, tagFilter, statusFilter, assigneeFilter, search]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const loadPage = useCallback(async (page: number) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+
+    try {
+      const { data, error, count } = await feedbackListQuery(filters, user?.id)
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (requestId !== requestIdRef.current) return;
+
+      const rows = data || [];
+      // Feedbacks arriving over realtime push older ones down, so a later page can repeat rows already listed
+      setItems(prev => {
+        if (page === 0) return rows;
+        const loadedIds = new Set(prev.map(item => item.id));
+        return [...prev, ...rows.filter(row => !loadedIds.has(row.id))];
+      });
+      setTotalCount(count ?? 0);
+      setPagesLoaded(page + 1);
+      if (page === 0) setHasPendingNew(false);
+    } catch (error) {
+      console.error('Error fetching feedbacks:', error);
+      toast({
+        title: "Erro ao carregar avaliações",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [filters, user?.id, toast]);
+
+  useEffect(() => {
+    loadPage(0);
+    setSelectedIds([]);
+    onFiltersChange?.(filters);
+  }, [filters, loadPage, onFiltersChange]);
+
+  useEffect(() => {
+    if (refreshKey === handledRefreshKeyRef.current) return;
+    handledRefreshKeyRef.current = refreshKey;
+    // Don't yank the list away from someone who scrolled past the first page
+    if (pagesLoaded <= 1) {
+      loadPage(0);
+    } else {
+      setHasPendingNew(true);
+    }
+  }, [refreshKey, pagesLoaded, loadPage]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && hasMore && !isLoading) {
+        loadPage(pagesLoaded);
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, pagesLoaded, loadPage]);
+
+  const updateTagIds = (feedbackId: string, tagIds: string[]) =>
+    setItems(prev => prev.map(item => item.id === feedbackId ? { ...item, tag_ids: tagIds } : item));
+
+  const bulkTag = async (tagId: string, add: boolean) => {
+    setIsTagging(true);
+    const { error } = add
+      ? await supabase
+          .from('feedback_tags')
+          .upsert(selectedIds.map(feedbackId => ({ feedback_id: feedbackId, tag_id: tagId })), { onConflict: 'feedback_id,tag_id', ignoreDuplicates: true })
+      : await supabase.from('feedback_tags').delete().eq('tag_id', tagId).in('feedback_id', selectedIds);
+    setIsTagging(false);
+
+    if (error) {
+      console.error('Error bulk tagging feedbacks:', error);
+      toast({
+        title: "Erro ao alterar etiquetas",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setItems(prev => prev.map(item => {
+      if (!selectedIds.includes(item.id)) return item;
+      const current = item.tag_ids ?? [];
+      if (add) return current.includes(tagId) ? item : { ...item, tag_ids: [...current, tagId] };
+      return { ...item, tag_ids: current.filter(id => id !== tagId) };
+    }));
+    onTagsChanged?.();
+
+    const tagName = tags.find(tag => tag.id === tagId)?.name;
+    toast({
+      title: add ? "Etiqueta aplicada" : "Etiqueta removida",
+      description: `"${tagName}" ${add ? "aplicada a" : "removida de"} ${selectedIds.length} avaliação(ões).`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <CardTitle>Lista de Avaliações ({totalCount})</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Buscar nome, @ ou comentário"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10 w-[240px]"
+              />
+            </div>
+
+            <Select value={sortBy} onValueChange={(value: SortBy) => setSortBy(value)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recent">Mais Recentes</SelectItem>
+                <SelectItem value="best">Melhores</SelectItem>
+                <SelectItem value="worst">Piores</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={minRatingFilter} onValueChange={setMinRatingFilter}>
+              <SelectTrigger className="w-[140px]">
+                <Filter className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as notas</SelectItem>
+                <SelectItem value="1">Nota ≥ 1</SelectItem>
+                <SelectItem value="2">Nota ≥ 2</SelectItem>
+                <SelectItem value="3">Nota ≥ 3</SelectItem>
+                <SelectItem value="4">Nota ≥ 4</SelectItem>
+                <SelectItem value="5">Nota = 5</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={contactFilter} onValueChange={(value: ContactFilter) => setContactFilter(value)}>
+              <SelectTrigger className="w-[180px]">
+                <Phone className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os clientes</SelectItem>
+                <SelectItem value="opted-in">Aceitam contato</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={npsFilter} onValueChange={(value: NpsFilter) => onNpsFilterChange(value)}>
+              <SelectTrigger className="w-[160px]">
+                <Megaphone className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todo o NPS</SelectItem>
+                {(Object.keys(npsCategoryLabels) as NpsCategory[]).map(category => (
+                  <SelectItem key={category} value={category}>{npsCategoryLabels[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={locationFilter} onValueChange={(value: LocationFilter) => onLocationFilterChange(value)}>
+              <SelectTrigger className="w-[160px]">
+                <MapPin className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as mesas</SelectItem>
+                {(Object.keys(areaLabels) as DiningArea[]).map(area => (
+                  <SelectItem key={area} value={`area:${area}`}>{areaLabels[area]}</SelectItem>
+                ))}
+                {tables.map(table => (
+                  <SelectItem key={table.number} value={`mesa:${table.number}`}>Mesa {table.number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={sentimentFilter} onValueChange={(value: SentimentFilter) => onSentimentFilterChange(value)}>
+              <SelectTrigger className="w-[190px]">
+                <Smile className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os comentários</SelectItem>
+                {(Object.keys(commentSentimentLabels) as CommentSentiment[]).map(sentiment => (
+                  <SelectItem key={sentiment} value={sentiment}>Tom {commentSentimentLabels[sentiment].toLowerCase()}</SelectItem>
+                ))}
+                <SelectItem value="mismatch">Contradiz as notas</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={topicFilter} onValueChange={(value: TopicFilter) => onTopicFilterChange(value)}>
+              <SelectTrigger className="w-[170px]">
+                <Tags className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os temas</SelectItem>
+                {(Object.keys(commentTopicLabels) as CommentTopic[]).map(topic => (
+                  <SelectItem key={topic} value={topic}>{commentTopicLabels[topic]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={tagFilter} onValueChange={onTagFilterChange}>
+              <SelectTrigger className="w-[180px]">
+                <TagIcon className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as etiquetas</SelectItem>
+                {tags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={statusFilter} onValueChange={(value: StatusFilter) => setStatusFilter(value)}>
+              <SelectTrigger className="w-[160px]">
+                <ClipboardList className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os status</SelectItem>
+                <SelectItem value="open">Em aberto</SelectItem>
+                {(Object.keys(feedbackStatusLabels) as FeedbackStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{feedbackStatusLabels[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={assigneeFilter} onValueChange={(value: AssigneeFilter) => setAssigneeFilter(value)}>
+              <SelectTrigger className="w-[170px]">
+                <UserCheck className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Qualquer responsável</SelectItem>
+                <SelectItem value="mine">Atribuídas a mim</SelectItem>
+                <SelectItem value="unassigned">Sem responsável</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {actions}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {hasPendingNew && (
+            <Button variant="secondary" className="w-full flex items-center gap-2" onClick={() => loadPage(0)}>
+              <RefreshCw className="h-4 w-4" />
+              Novas avaliações recebidas. Clique para atualizar.
+            </Button>
+          )}
+
+          {selectedIds.length > 0 && (
+            <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-md border bg-card p-3 shadow-card">
+              <span className="text-sm font-medium">{selectedIds.length} selecionada(s)</span>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" disabled={isTagging || tags.length === 0} className="flex items-center gap-2">
+                    <TagIcon className="h-4 w-4" />
+                    Etiquetar
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {tags.map(tag => (
+                    <DropdownMenuItem key={tag.id} onSelect={() => bulkTag(tag.id, true)}>
+                      <span className="mr-2 h-3 w-3 rounded-full" style={tagBadgeStyle(tag.color)} />
+                      {tag.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline" disabled={isTagging || tags.length === 0}>
+                    Remover etiqueta
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {tags.map(tag => (
+                    <DropdownMenuItem key={tag.id} onSelect={() => bulkTag(tag.id, false)}>
+                      <span className="mr-2 h-3 w-3 rounded-full" style={tagBadgeStyle(tag.color)} />
+                      {tag.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedIds(items.map(item => item.id))}>
+                Selecionar todas ({items.length})
+              </Button>
+              <Button size="sm" variant="ghost" className="flex items-center gap-1 sm:ml-auto" onClick={() => setSelectedIds([])}>
+                <X className="h-4 w-4" />
+                Limpar seleção
+              </Button>
+            </div>
+          )}
+
+          {items.map((feedback) => (
+            <FeedbackCard
+              key={feedback.id}
+              feedback={feedback}
+              criteria={criteria}
+              staff={staff}
+              tags={tags}
+              onCaseUpdated={(feedbackId, changes) =>
+                setItems(prev => prev.map(item => item.id === feedbackId ? { ...item, ...changes } : item))
+              }
+              onTagsChanged={(feedbackId, tagIds) => {
+                updateTagIds(feedbackId, tagIds);
+                onTagsChanged?.();
+              }}
+              selected={selectedIds.includes(feedback.id)}
+              onSelectedChange={(selected) =>
+                setSelectedIds(prev => selected ? [...prev, feedback.id] : prev.filter(id => id !== feedback.id))
+              }
+            />
+          ))}
+
+          {!isLoading && items.length === 0 && (
+            <div className="text-center py-8">
+              <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">Nenhuma avaliação encontrada com os filtros selecionados.</p>
+            </div>
+          )}
+
+          <div ref={sentinelRef} />
+
+          {isLoading && (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { tagBadgeStyle, type Tag } from "@/lib/tags";
+import { Tag as TagIcon } from "lucide-react";
+
+interface FeedbackTagMenuProps {
+  feedbackId: string;
+  tags: Tag[];
+  tagIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+export const FeedbackTagMenu = ({ feedbackId, tags, tagIds, onChange }: FeedbackTagMenuProps) => {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleTag = async (tagId: string, checked: boolean) => {
+    setIsSaving(true);
+    const { error } = checked
+      ? await supabase.from('feedback_tags').insert({ feedback_id: feedbackId, tag_id: tagId })
+      : await supabase.from('feedback_tags').delete().eq('feedback_id', feedbackId).eq('tag_id', tagId);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error updating feedback tags:', error);
+      toast({
+        title: "Erro ao alterar etiquetas",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+    onChange(checked ? [...tagIds, tagId] : tagIds.filter(id => id !== tagId));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-1">
+          <TagIcon className="h-4 w-4" />
+          Etiquetas
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel>Etiquetas da avaliação</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {tags.map(tag => (
+          <DropdownMenuCheckboxItem
+            key={tag.id}
+            checked={tagIds.includes(tag.id)}
+            disabled={isSaving}
+            // Stays open so several tags can be toggled in a row
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) => toggleTag(tag.id, checked)}
+          >
+            <span className="mr-2 h-3 w-3 rounded-full" style={tagBadgeStyle(tag.color)} />
+            {tag.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {tags.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">
+            Nenhuma etiqueta cadastrada.{" "}
+            {hasRole("manager") && <Link to="/admin/etiquetas" className="text-primary hover:underline">Criar etiquetas</Link>}
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toQueryBounds } from "@/lib/date-range";
+import { areaLabels } from "@/lib/dining-tables";
+import type { LocationFilter } from "@/lib/feedback-filters";
+import { MapPin } from "lucide-react";
+
+type AreaResult = Database["public"]["Functions"]["feedback_by_area"]["Returns"][number];
+type TableResult = Database["public"]["Functions"]["feedback_by_table"]["Returns"][number];
+
+interface LocationComparisonProps {
+  dateRange: DateRange | undefined;
+  refreshKey?: number;
+  onSelect: (filter: LocationFilter) => void;
+}
+
+export const LocationComparison = ({ dateRange, refreshKey, onSelect }: LocationComparisonProps) => {
+  const [areas, setAreas] = useState<AreaResult[]>([]);
+  const [tables, setTables] = useState<TableResult[]>([]);
+
+  const fetchLocations = useCallback(async () => {
+    const { from, to } = toQueryBounds(dateRange);
+    const bounds = { _from: from ?? undefined, _to: to ?? undefined };
+
+    const [areaResult, tableResult] = await Promise.all([
+      supabase.rpc('feedback_by_area', bounds),
+      supabase.rpc('feedback_by_table', bounds)
+    ]);
+
+    if (areaResult.error || tableResult.error) {
+      console.error('Error fetching location comparison:', areaResult.error ?? tableResult.error);
+      return;
+    }
+    setAreas(areaResult.data || []);
+    setTables(tableResult.data || []);
+  }, [dateRange]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations, refreshKey]);
+
+  const getAreaChartData = () => areas.map(area => ({
+    area: areaLabels[area.area],
+    score: Number(area.overall_average ?? 0),
+    volume: Number(area.volume)
+  }));
+
+  if (tables.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-primary" />
+          Desempenho por Área e Mesa
+        </CardTitle>
+        <CardDescription>Apenas avaliações enviadas pelo QR code da mesa. Clique em uma mesa para filtrar a lista.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={getAreaChartData()}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="area" fontSize={12} />
+            <YAxis domain={[0, 5]} />
+            <Tooltip formatter={(value, _name, item) => [`${value} (${item.payload.volume} avaliações)`, 'Média']} />
+            <Bar
+              dataKey="score"
+              fill="#A72026"
+              cursor="pointer"
+              onClick={(_, index) => onSelect(`area:${areas[index].area}`)}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="max-h-[250px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mesa</TableHead>
+                <TableHead>Área</TableHead>
+                <TableHead className="text-right">Avaliações</TableHead>
+                <TableHead className="text-right">Média</TableHead>
+                <TableHead className="text-right">NPS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tables.map(table => (
+                <TableRow
+                  key={table.table_number}
+                  className="cursor-pointer"
+                  onClick={() => onSelect(`mesa:${table.table_number}`)}
+                >
+                  <TableCell className="font-medium">{table.table_number}</TableCell>
+                  <TableCell>{table.area ? areaLabels[table.area] : '—'}</TableCell>
+                  <TableCell className="text-right">{table.volume}</TableCell>
+                  <TableCell className="text-right">{table.overall_average === null ? '—' : Number(table.overall_average).toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{table.nps_score === null ? '—' : Math.round(Number(table.nps_score))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCPF } from "@/lib/cpf";
+import { formatPhone, whatsappLink } from "@/lib/phone";
+import { PII_REVEAL_ROLE, revealContacts, type RevealedContact } from "@/lib/pii";
+import { Eye, Phone } from "lucide-react";
+
+interface MaskedContactProps {
+  feedbackId: string;
+  // Masked values as they come from the database, CPF is only shown when passed
+  cpf?: string | null;
+  telefone: string | null;
+  // Call and WhatsApp links only for customers who accepted being contacted
+  allowContact: boolean;
+}
+
+export const MaskedContact = ({ feedbackId, cpf, telefone, allowContact }: MaskedContactProps) => {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [revealed, setRevealed] = useState<RevealedContact | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+
+  const handleReveal = async () => {
+    setIsRevealing(true);
+    try {
+      const contacts = await revealContacts([feedbackId]);
+      setRevealed(contacts.get(feedbackId) ?? null);
+    } catch (error) {
+      console.error('Error revealing contact:', error);
+      toast({
+        title: "Erro ao revelar dados",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  return (
+    <span className="flex flex-wrap items-center gap-3">
+      {cpf !== undefined && (
+        <span className="font-mono">CPF {revealed ? formatCPF(revealed.cpf) : cpf ?? "—"}</span>
+      )}
+      {revealed && allowContact ? (
+        <>
+          <a href={`tel:${revealed.telefone}`} className="flex items-center gap-1 text-muted-foreground hover:text-primary">
+            <Phone className="h-3 w-3" />
+            {formatPhone(revealed.telefone)}
+          </a>
+          <a
+            href={whatsappLink(revealed.telefone)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            WhatsApp
+          </a>
+        </>
+      ) : (
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Phone className="h-3 w-3" />
+          {revealed ? formatPhone(revealed.telefone) : telefone ?? "—"}
+        </span>
+      )}
+      {!revealed && hasRole(PII_REVEAL_ROLE) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 flex items-center gap-1"
+          onClick={handleReveal}
+          disabled={isRevealing}
+          title="Mostrar CPF e telefone completos (fica registrado)"
+        >
+          <Eye className="h-3 w-3" />
+          Revelar
+        </Button>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+
+interface NpsScaleProps {
+  value: number | null;
+  onChange: (value: number) => void;
+}
+
+export const NpsScale = ({ value, onChange }: NpsScaleProps) => {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-11 gap-1">
+        {Array.from({ length: 11 }, (_, score) => (
+          <button
+            key={score}
+            type="button"
+            className={cn(
+              "h-10 rounded-md border text-sm font-medium transition-smooth focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1",
+              value === score
+                ? "bg-primary text-primary-foreground border-primary"
+                : "bg-background hover:bg-muted"
+            )}
+            onClick={() => onChange(score)}
+            aria-pressed={value === score}
+          >
+            {score}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Nada provável</span>
+        <span>Muito provável</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toQueryBounds } from "@/lib/date-range";
+import { npsCategoryLabels, type NpsCategory } from "@/lib/nps";
+import { Megaphone, TrendingDown } from "lucide-react";
+
+type NpsResult = Database["public"]["Functions"]["feedback_nps"]["Returns"][number];
+
+const categoryColors: Record<NpsCategory, string> = {
+  promoter: "bg-green-600",
+  passive: "bg-yellow-500",
+  detractor: "bg-destructive"
+};
+
+interface NpsSummaryProps {
+  dateRange: DateRange | undefined;
+  refreshKey?: number;
+  onShowDetractors: () => void;
+}
+
+export const NpsSummary = ({ dateRange, refreshKey, onShowDetractors }: NpsSummaryProps) => {
+  const [nps, setNps] = useState<NpsResult | null>(null);
+
+  const fetchNps = useCallback(async () => {
+    const { from, to } = toQueryBounds(dateRange);
+    const { data, error } = await supabase.rpc('feedback_nps', {
+      _from: from ?? undefined,
+      _to: to ?? undefined
+    });
+
+    if (error) {
+      console.error('Error fetching NPS:', error);
+      return;
+    }
+    setNps(data?.[0] ?? null);
+  }, [dateRange]);
+
+  useEffect(() => {
+    fetchNps();
+  }, [fetchNps, refreshKey]);
+
+  const responses = Number(nps?.responses ?? 0);
+  const counts: Record<NpsCategory, number> = {
+    promoter: Number(nps?.promoters ?? 0),
+    passive: Number(nps?.passives ?? 0),
+    detractor: Number(nps?.detractors ?? 0)
+  };
+  const percentage = (count: number) => responses ? Math.round((count / responses) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5 text-primary" />
+          Net Promoter Score
+        </CardTitle>
+        <CardDescription>
+          {responses} resposta(s) à pergunta de recomendação no período
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {responses === 0 ? (
+          <p className="text-muted-foreground">Nenhuma resposta de NPS no período selecionado.</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-6 md:items-center">
+            <div className="text-center md:w-40">
+              <div className="text-5xl font-bold text-primary">{Math.round(Number(nps?.nps_score ?? 0))}</div>
+              <p className="text-sm text-muted-foreground">de -100 a 100</p>
+            </div>
+
+            <div className="flex-1 space-y-4">
+              <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+                {(Object.keys(counts) as NpsCategory[]).map(category => (
+                  <div
+                    key={category}
+                    className={categoryColors[category]}
+                    style={{ width: `${percentage(counts[category])}%` }}
+                  />
+                ))}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                {(Object.keys(counts) as NpsCategory[]).map(category => (
+                  <div key={category}>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <span className={`h-2 w-2 rounded-full ${categoryColors[category]}`} />
+                      {npsCategoryLabels[category]}
+                    </div>
+                    <div className="text-xl font-semibold">
+                      {counts[category]} <span className="text-sm font-normal text-muted-foreground">({percentage(counts[category])}%)</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              onClick={onShowDetractors}
+              disabled={counts.detractor === 0}
+              className="flex items-center gap-2"
+            >
+              <TrendingDown className="h-4 w-4" />
+              Ver detratores
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  listQueuedSubmissions,
+  removeQueuedSubmission,
+  retryDelay,
+  saveQueuedSubmission
+} from "@/lib/offline-queue";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { isPermanentError, sendFeedbackSubmission, type FeedbackSubmission } from "@/lib/submit-feedback";
+import { OfflineQueueContext } from "@/hooks/use-offline-queue";
+
+export const OfflineQueueProvider = ({ children }: { children: React.ReactNode }) => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const processQueue = useCallback(async (force: boolean) => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    clearTimeout(retryTimeoutRef.current);
+
+    try {
+      const queued = await listQueuedSubmissions();
+      const due = queued.filter(submission => !submission.rejectedAt && (force || submission.nextAttemptAt <= Date.now()));
+
+      if (due.length > 0 && navigator.onLine) {
+        setIsSyncing(true);
+        for (const submission of due) {
+          try {
+            await sendFeedbackSubmission(submission);
+            await removeQueuedSubmission(submission.id);
+          } catch (error) {
+            if (isPermanentError(error)) {
+              console.error('Queued feedback rejected by the database, keeping it for review:', submission.id, error);
+              await saveQueuedSubmission({
+                ...submission,
+                rejectedAt: Date.now(),
+                rejectionReason: (error as Partial<PostgrestError>).message
+              });
+            } else {
+              await saveQueuedSubmission({
+                ...submission,
+                attempts: submission.attempts + 1,
+                nextAttemptAt: Date.now() + retryDelay(submission.attempts + 1)
+              });
+            }
+          }
+        }
+      }
+
+      const remaining = await listQueuedSubmissions();
+      const pending = remaining.filter(submission => !submission.rejectedAt);
+      setPendingCount(pending.length);
+      setRejectedCount(remaining.length - pending.length);
+
+      if (pending.length > 0) {
+        const nextAttemptAt = Math.min(...pending.map(submission => submission.nextAttemptAt));
+        retryTimeoutRef.current = setTimeout(() => processQueue(false), Math.max(nextAttemptAt - Date.now(), 1_000));
+      }
+    } catch (error) {
+      console.error('Error processing offline feedback queue:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    processQueue(false);
+
+    const handleOnline = () => processQueue(true);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearTimeout(retryTimeoutRef.current);
+    };
+  }, [processQueue]);
+
+  const enqueue = async (submission: FeedbackSubmission) => {
+    await saveQueuedSubmission({
+      ...submission,
+      attempts: 0,
+      nextAttemptAt: Date.now() + retryDelay(0)
+    });
+    await processQueue(false);
+  };
+
+  // Puts the refused submissions back in the queue, e.g. after a fix on the server
+  const retryRejected = async () => {
+    const queued = await listQueuedSubmissions();
+    for (const { rejectedAt, rejectionReason, ...submission } of queued.filter(submission => submission.rejectedAt)) {
+      await saveQueuedSubmission({ ...submission, attempts: 0, nextAttemptAt: Date.now() });
+    }
+    await processQueue(true);
+  };
+
+  const discardRejected = async () => {
+    const queued = await listQueuedSubmissions();
+    for (const submission of queued.filter(submission => submission.rejectedAt)) {
+      await removeQueuedSubmission(submission.id);
+    }
+    await processQueue(false);
+  };
+
+  return (
+    <OfflineQueueContext.Provider
+      value={{
+        pendingCount,
+        rejectedCount,
+        isSyncing,
+        enqueue,
+        flush: () => processQueue(true),
+        retryRejected,
+        discardRejected
+      }}
+    >
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+};
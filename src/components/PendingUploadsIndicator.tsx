@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useAuth } from "@/hooks/use-auth";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+
+// Small pills shown while offline submissions are waiting to be sent, or were refused by the server
+export const PendingUploadsIndicator = () => {
+  const { pendingCount, rejectedCount, isSyncing, flush, retryRejected, discardRejected } = useOfflineQueue();
+  // The kiosk shows this to customers too, only the team may throw feedback away
+  const { hasRole } = useAuth();
+
+  if (pendingCount === 0 && rejectedCount === 0) return null;
+
+  return (
+    <div className="fixed bottom-2 left-2 z-40 flex flex-col items-start gap-2">
+      {pendingCount > 0 && (
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex items-center gap-2 shadow-card"
+          onClick={flush}
+          disabled={isSyncing}
+          title="Tentar enviar agora"
+        >
+          {isSyncing ? <RefreshCw className="h-4 w-4 animate-spin" /> : <CloudOff className="h-4 w-4" />}
+          {pendingCount} {pendingCount === 1 ? "avaliação aguardando envio" : "avaliações aguardando envio"}
+        </Button>
+      )}
+
+      {rejectedCount > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="destructive" size="sm" className="flex items-center gap-2 shadow-card">
+              <AlertTriangle className="h-4 w-4" />
+              {rejectedCount} {rejectedCount === 1 ? "avaliação recusada" : "avaliações recusadas"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="space-y-3 text-sm">
+            <p>
+              O servidor recusou {rejectedCount === 1 ? "esta avaliação" : "estas avaliações"} ao sincronizar.
+              Elas continuam guardadas neste aparelho até serem reenviadas ou descartadas pela equipe.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={retryRejected} disabled={isSyncing}>
+                Tentar novamente
+              </Button>
+              {hasRole("staff") && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline">Descartar</Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Descartar {rejectedCount === 1 ? "a avaliação recusada" : `as ${rejectedCount} avaliações recusadas`}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Elas são apagadas deste aparelho e não poderão ser recuperadas.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction onClick={discardRejected}>Descartar</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { useAuth, type AppRole } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  minimumRole?: AppRole;
+}
+
+export const ProtectedRoute = ({ children, minimumRole = "staff" }: ProtectedRouteProps) => {
+  const { session, loading, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Verificando acesso...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (!hasRole(minimumRole)) {
+    return (
+      <div className="max-w-md mx-auto text-center py-16">
+        <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+        <h2 className="text-xl font-semibold mb-2">Acesso restrito</h2>
+        <p className="text-muted-foreground">
+          Sua conta não tem permissão para acessar esta página. Fale com um administrador.
+        </p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
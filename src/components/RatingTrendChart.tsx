@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toQueryBounds } from "@/lib/date-range";
+import { criterionLabel } from "@/lib/feedback";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+
+type TimeBucket = Database["public"]["Functions"]["feedback_time_buckets"]["Returns"][number];
+
+type Granularity = "day" | "week" | "month";
+
+const granularityLabels: Record<Granularity, string> = {
+  day: "Diário",
+  week: "Semanal",
+  month: "Mensal"
+};
+
+const bucketLabel: Record<Granularity, (date: Date) => string> = {
+  day: (date) => format(date, "dd/MM"),
+  week: (date) => `sem. ${format(date, "dd/MM")}`,
+  month: (date) => format(date, "MMM/yy", { locale: ptBR })
+};
+
+const OVERALL_COLOR = '#A72026';
+const NPS_COLOR = '#16A34A';
+// Cycled through in criteria order
+const SERIES_COLORS = ['#E8913A', '#3A7BE8', '#8E44AD', '#16A085', '#D4AC0D', '#7F8C8D', '#C0392B', '#2C3E50'];
+
+interface RatingTrendChartProps {
+  dateRange: DateRange | undefined;
+  refreshKey?: number;
+}
+
+export const RatingTrendChart = ({ dateRange, refreshKey }: RatingTrendChartProps) => {
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  const [granularity, setGranularity] = useState<Granularity>("week");
+  // Criteria series start hidden so the overall line is readable, listed here as the ones shown
+  const [visibleSeries, setVisibleSeries] = useState<Set<string>>(new Set(["overall", "volume", "nps"]));
+  const [buckets, setBuckets] = useState<TimeBucket[]>([]);
+
+  const fetchBuckets = useCallback(async () => {
+    const { from, to } = toQueryBounds(dateRange);
+    const { data, error } = await supabase.rpc('feedback_time_buckets', {
+      _granularity: granularity,
+      _from: from ?? undefined,
+      _to: to ?? undefined
+    });
+
+    if (error) {
+      console.error('Error fetching rating trend:', error);
+      return;
+    }
+    setBuckets(data || []);
+  }, [dateRange, granularity]);
+
+  useEffect(() => {
+    fetchBuckets();
+  }, [fetchBuckets, refreshKey]);
+
+  // Buckets come back as local (America/Sao_Paulo) timestamps without offset
+  const getTrendData = () => buckets.map(bucket => ({
+    period: bucketLabel[granularity](new Date(bucket.bucket)),
+    volume: Number(bucket.volume),
+    overall: Number(bucket.overall_average),
+    // Buckets without any NPS answer leave a gap instead of dropping to zero
+    nps: bucket.nps_score === null ? null : Number(bucket.nps_score),
+    ...(bucket.criteria_averages as Record<string, number>)
+  }));
+
+  const toggleSeries = (dataKey: string) => {
+    setVisibleSeries(prev => {
+      const next = new Set(prev);
+      if (next.has(dataKey)) next.delete(dataKey); else next.add(dataKey);
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle>Evolução das Notas</CardTitle>
+            <CardDescription>Média por critério, NPS e volume de avaliações. Clique na legenda para mostrar ou esconder séries.</CardDescription>
+          </div>
+          <Select value={granularity} onValueChange={(value: Granularity) => setGranularity(value)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(granularityLabels) as Granularity[]).map(key => (
+                <SelectItem key={key} value={key}>{granularityLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={320}>
+          <ComposedChart data={getTrendData()}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" fontSize={12} />
+            <YAxis yAxisId="rating" domain={[0, 5]} />
+            <YAxis yAxisId="volume" orientation="right" allowDecimals={false} />
+            <YAxis yAxisId="nps" domain={[-100, 100]} hide />
+            <Tooltip />
+            <Legend
+              onClick={(entry) => toggleSeries(String(entry.dataKey))}
+              wrapperStyle={{ cursor: 'pointer' }}
+            />
+            <Bar
+              yAxisId="volume"
+              dataKey="volume"
+              name="Avaliações"
+              fill="#F899A0"
+              opacity={0.5}
+              hide={!visibleSeries.has("volume")}
+            />
+            <Line
+              yAxisId="rating"
+              type="monotone"
+              dataKey="overall"
+              name="Média Geral"
+              stroke={OVERALL_COLOR}
+              strokeWidth={3}
+              hide={!visibleSeries.has("overall")}
+            />
+            <Line
+              yAxisId="nps"
+              type="monotone"
+              dataKey="nps"
+              name="NPS"
+              stroke={NPS_COLOR}
+              strokeWidth={2}
+              strokeDasharray="5 3"
+              hide={!visibleSeries.has("nps")}
+              connectNulls
+            />
+            {criteria.map((criterion, index) => (
+              <Line
+                key={criterion.id}
+                yAxisId="rating"
+                type="monotone"
+                dataKey={criterion.key}
+                name={criterionLabel(criterion)}
+                stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                hide={!visibleSeries.has(criterion.key)}
+                connectNulls
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toQueryBounds } from "@/lib/date-range";
+import { tagBadgeStyle } from "@/lib/tags";
+import { Tags } from "lucide-react";
+
+type TagResult = Database["public"]["Functions"]["feedback_by_tag"]["Returns"][number];
+
+interface TagComparisonProps {
+  dateRange: DateRange | undefined;
+  refreshKey?: number;
+  onSelect: (tagId: string) => void;
+}
+
+export const TagComparison = ({ dateRange, refreshKey, onSelect }: TagComparisonProps) => {
+  const [tags, setTags] = useState<TagResult[]>([]);
+
+  const fetchTags = useCallback(async () => {
+    const { from, to } = toQueryBounds(dateRange);
+    const { data, error } = await supabase.rpc('feedback_by_tag', { _from: from ?? undefined, _to: to ?? undefined });
+
+    if (error) {
+      console.error('Error fetching tag comparison:', error);
+      return;
+    }
+    setTags(data || []);
+  }, [dateRange]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags, refreshKey]);
+
+  const getChartData = () => tags.map(tag => ({
+    tag: tag.name,
+    score: Number(tag.overall_average ?? 0),
+    volume: Number(tag.volume)
+  }));
+
+  if (tags.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5 text-primary" />
+          Desempenho por Etiqueta
+        </CardTitle>
+        <CardDescription>Avaliações etiquetadas pela equipe no período. Clique em uma etiqueta para filtrar a lista.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={getChartData()}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="tag" fontSize={12} />
+            <YAxis domain={[0, 5]} />
+            <Tooltip formatter={(value, _name, item) => [`${value} (${item.payload.volume} avaliações)`, 'Média']} />
+            <Bar dataKey="score" cursor="pointer" onClick={(_, index) => onSelect(tags[index].tag_id)}>
+              {tags.map(tag => (
+                <Cell key={tag.tag_id} fill={tag.color} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="max-h-[250px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Etiqueta</TableHead>
+                <TableHead className="text-right">Avaliações</TableHead>
+                <TableHead className="text-right">Média</TableHead>
+                <TableHead className="text-right">NPS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tags.map(tag => (
+                <TableRow key={tag.tag_id} className="cursor-pointer" onClick={() => onSelect(tag.tag_id)}>
+                  <TableCell>
+                    <Badge style={tagBadgeStyle(tag.color)}>{tag.name}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{tag.volume}</TableCell>
+                  <TableCell className="text-right">{tag.overall_average === null ? '—' : Number(tag.overall_average).toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{tag.nps_score === null ? '—' : Math.round(Number(tag.nps_score))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,41 @@
+import { useRegisterSW } from "virtual:pwa-register/react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+
+// Kiosk tablets stay open for days, so look for a new deploy every hour
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export const UpdatePrompt = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW(_url, registration) {
+      if (!registration) return;
+      setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError(error) {
+      console.error('Error registering service worker:', error);
+    }
+  });
+
+  if (!needRefresh) return null;
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-50 shadow-elegant max-w-sm">
+      <CardContent className="pt-6 space-y-3">
+        <p className="text-sm">Uma nova versão do sistema está disponível.</p>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setNeedRefresh(false)}>
+            Depois
+          </Button>
+          <Button size="sm" onClick={() => updateServiceWorker(true)} className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Atualizar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
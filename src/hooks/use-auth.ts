@@ -0,0 +1,32 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Higher number means more privileges
+export const roleRank: Record<AppRole, number> = {
+  staff: 1,
+  manager: 2,
+  admin: 3
+};
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  role: AppRole | null;
+  loading: boolean;
+  hasRole: (minimum: AppRole) => boolean;
+  signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { DiningTable } from "@/lib/dining-tables";
+
+export const useDiningTables = () => {
+  const [tables, setTables] = useState<DiningTable[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTables = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('dining_tables')
+      .select('*')
+      .order('number', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching dining tables:', error);
+    } else {
+      setTables(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchTables();
+  }, [fetchTables]);
+
+  return { tables, loading, refetch: fetchTables };
+};
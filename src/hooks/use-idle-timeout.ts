@@ -0,0 +1,26 @@
+import { useEffect, useRef } from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "scroll", "input"] as const;
+
+// Calls onIdle once `timeoutMs` after the last user activity. Nothing fires until someone interacts,
+// so an untouched screen is never reset over and over.
+export const useIdleTimeout = (timeoutMs: number, onIdle: () => void, enabled = true) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const handleActivity = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true, capture: true }));
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity, { capture: true }));
+    };
+  }, [timeoutMs, enabled]);
+};
@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { FeedbackSubmission } from "@/lib/submit-feedback";
+
+interface OfflineQueueContextValue {
+  pendingCount: number;
+  // Submissions the database refused, waiting for someone to retry or discard them
+  rejectedCount: number;
+  isSyncing: boolean;
+  enqueue: (submission: FeedbackSubmission) => Promise<void>;
+  // Retries everything now, ignoring the backoff schedule
+  flush: () => Promise<void>;
+  retryRejected: () => Promise<void>;
+  discardRejected: () => Promise<void>;
+}
+
+export const OfflineQueueContext = createContext<OfflineQueueContextValue | undefined>(undefined);
+
+export const useOfflineQueue = () => {
+  const context = useContext(OfflineQueueContext);
+  if (!context) {
+    throw new Error("useOfflineQueue must be used within an OfflineQueueProvider");
+  }
+  return context;
+};
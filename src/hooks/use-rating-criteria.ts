@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { RatingCriterion } from "@/lib/feedback";
+
+// Criteria ordered for display. The form only asks active ones, the dashboard also needs retired ones for history
+export const useRatingCriteria = ({ includeInactive = false } = {}) => {
+  const [criteria, setCriteria] = useState<RatingCriterion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCriteria = useCallback(async () => {
+    let query = supabase
+      .from('rating_criteria')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching rating criteria:', error);
+    } else {
+      setCriteria(data || []);
+    }
+    setLoading(false);
+  }, [includeInactive]);
+
+  useEffect(() => {
+    fetchCriteria();
+  }, [fetchCriteria]);
+
+  return { criteria, loading, refetch: fetchCriteria };
+};
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type StaffMember = Database["public"]["Functions"]["staff_directory"]["Returns"][number];
+
+// Team members with a role, for assignee pickers and note authors
+export const useStaffDirectory = () => {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      const { data, error } = await supabase.rpc('staff_directory');
+      if (error) {
+        console.error('Error fetching staff directory:', error);
+        return;
+      }
+      setStaff((data || []).sort((a, b) => a.email.localeCompare(b.email)));
+    };
+    fetchStaff();
+  }, []);
+
+  return staff;
+};
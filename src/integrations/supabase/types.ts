@@ -14,63 +14,1105 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_events: {
+        Row: {
+          created_at: string
+          delivered_at: string | null
+          email_status: string | null
+          error: string | null
+          feedback_id: string
+          id: string
+          notify_email: boolean
+          notify_webhook: boolean
+          reason: string
+          rule_id: string | null
+          rule_name: string
+          status: string
+          webhook_status: string | null
+        }
+        Insert: {
+          created_at?: string
+          delivered_at?: string | null
+          email_status?: string | null
+          error?: string | null
+          feedback_id: string
+          id?: string
+          notify_email: boolean
+          notify_webhook: boolean
+          reason: string
+          rule_id?: string | null
+          rule_name: string
+          status?: string
+          webhook_status?: string | null
+        }
+        Update: {
+          created_at?: string
+          delivered_at?: string | null
+          email_status?: string | null
+          error?: string | null
+          feedback_id?: string
+          id?: string
+          notify_email?: boolean
+          notify_webhook?: boolean
+          reason?: string
+          rule_id?: string | null
+          rule_name?: string
+          status?: string
+          webhook_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_events_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          active: boolean
+          created_at: string
+          criterion_id: string | null
+          id: string
+          keywords: string[]
+          name: string
+          notify_email: boolean
+          notify_webhook: boolean
+          rule_type: Database["public"]["Enums"]["alert_rule_type"]
+          threshold: number | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          criterion_id?: string | null
+          id?: string
+          keywords?: string[]
+          name: string
+          notify_email?: boolean
+          notify_webhook?: boolean
+          rule_type: Database["public"]["Enums"]["alert_rule_type"]
+          threshold?: number | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          criterion_id?: string | null
+          id?: string
+          keywords?: string[]
+          name?: string
+          notify_email?: boolean
+          notify_webhook?: boolean
+          rule_type?: Database["public"]["Enums"]["alert_rule_type"]
+          threshold?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rating_criteria"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_settings: {
+        Row: {
+          delivery_function_url: string | null
+          email_recipients: string[]
+          id: boolean
+          updated_at: string
+          webhook_url: string | null
+        }
+        Insert: {
+          delivery_function_url?: string | null
+          email_recipients?: string[]
+          id?: boolean
+          updated_at?: string
+          webhook_url?: string | null
+        }
+        Update: {
+          delivery_function_url?: string | null
+          email_recipients?: string[]
+          id?: boolean
+          updated_at?: string
+          webhook_url?: string | null
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          cpf_hash: string | null
+          created_at: string
+          details: Json
+          feedback_id: string | null
+          id: string
+          ip_address: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          cpf_hash?: string | null
+          created_at?: string
+          details?: Json
+          feedback_id?: string | null
+          id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          cpf_hash?: string | null
+          created_at?: string
+          details?: Json
+          feedback_id?: string | null
+          id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      comment_lexicon: {
+        Row: {
+          id: string
+          pattern: string
+          polarity: number
+          topic: Database["public"]["Enums"]["comment_topic"] | null
+        }
+        Insert: {
+          id?: string
+          pattern: string
+          polarity?: number
+          topic?: Database["public"]["Enums"]["comment_topic"] | null
+        }
+        Update: {
+          id?: string
+          pattern?: string
+          polarity?: number
+          topic?: Database["public"]["Enums"]["comment_topic"] | null
+        }
+        Relationships: []
+      }
+      consents: {
+        Row: {
+          consented_at: string
+          cpf: string
+          cpf_hash: string | null
+          data_usage: boolean
+          feedback_id: string
+          id: string
+          marketing: boolean
+          policy_version: string
+          user_agent: string | null
+        }
+        Insert: {
+          consented_at?: string
+          cpf: string
+          cpf_hash?: string | null
+          data_usage: boolean
+          feedback_id: string
+          id?: string
+          marketing?: boolean
+          policy_version: string
+          user_agent?: string | null
+        }
+        Update: {
+          consented_at?: string
+          cpf?: string
+          cpf_hash?: string | null
+          data_usage?: boolean
+          feedback_id?: string
+          id?: string
+          marketing?: boolean
+          policy_version?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consents_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: true
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cpf_hash_key: {
+        Row: {
+          created_at: string
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      customer_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          cpf_hash: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          cpf_hash: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          cpf_hash?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      data_subject_requests: {
+        Row: {
+          affected_rows: number
+          cpf_hash: string
+          created_at: string
+          id: string
+          request_type: string
+          requested_by: string | null
+        }
+        Insert: {
+          affected_rows?: number
+          cpf_hash: string
+          created_at?: string
+          id?: string
+          request_type: string
+          requested_by?: string | null
+        }
+        Update: {
+          affected_rows?: number
+          cpf_hash?: string
+          created_at?: string
+          id?: string
+          request_type?: string
+          requested_by?: string | null
+        }
+        Relationships: []
+      }
+      dining_tables: {
+        Row: {
+          active: boolean
+          area: Database["public"]["Enums"]["dining_area"]
+          created_at: string
+          number: number
+          seats: number | null
+        }
+        Insert: {
+          active?: boolean
+          area: Database["public"]["Enums"]["dining_area"]
+          created_at?: string
+          number: number
+          seats?: number | null
+        }
+        Update: {
+          active?: boolean
+          area?: Database["public"]["Enums"]["dining_area"]
+          created_at?: string
+          number?: number
+          seats?: number | null
+        }
+        Relationships: []
+      }
+      feedback_case_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          feedback_id: string
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          feedback_id: string
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          feedback_id?: string
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_case_events_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_cases: {
+        Row: {
+          assignee_id: string | null
+          feedback_id: string
+          resolution_reason: string | null
+          status: Database["public"]["Enums"]["feedback_status"]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          assignee_id?: string | null
+          feedback_id: string
+          resolution_reason?: string | null
+          status?: Database["public"]["Enums"]["feedback_status"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          assignee_id?: string | null
+          feedback_id?: string
+          resolution_reason?: string | null
+          status?: Database["public"]["Enums"]["feedback_status"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_cases_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: true
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_imports: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          file_name: string
+          id: string
+          imported_count: number
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          skipped_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          id?: string
+          imported_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          skipped_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          id?: string
+          imported_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          skipped_count?: number
+        }
+        Relationships: []
+      }
+      feedback_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          feedback_id: string
+          id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          feedback_id: string
+          id?: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          feedback_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_notes_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_ratings: {
+        Row: {
+          criterion_id: string
+          feedback_id: string
+          id: string
+          rating: number
+        }
+        Insert: {
+          criterion_id: string
+          feedback_id: string
+          id?: string
+          rating: number
+        }
+        Update: {
+          criterion_id?: string
+          feedback_id?: string
+          id?: string
+          rating?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_ratings_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rating_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_ratings_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          feedback_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          feedback_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          feedback_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_tags_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedbacks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       feedbacks: {
         Row: {
           ambiente_conforto: number | null
+          anonymized_at: string | null
+          area: Database["public"]["Enums"]["dining_area"] | null
           atendimento: number | null
+          average_rating: number | null
           comentario: string | null
+          comment_sentiment: Database["public"]["Enums"]["comment_sentiment"] | null
+          comment_sentiment_score: number | null
+          comment_topics: Database["public"]["Enums"]["comment_topic"][]
           cpf: string
+          cpf_hash: string | null
+          cpf_masked: string | null
           created_at: string | null
           custo_beneficio: number | null
           higiene_limpeza: number | null
           id: string
+          import_id: string | null
           instagram: string | null
           nome: string
+          nps_score: number | null
           qualidade_comida: number | null
+          search_vector: unknown | null
+          table_number: number | null
           telefone: string
+          telefone_masked: string | null
           tempo_espera: number | null
         }
         Insert: {
           ambiente_conforto?: number | null
+          anonymized_at?: string | null
+          area?: Database["public"]["Enums"]["dining_area"] | null
           atendimento?: number | null
+          average_rating?: number | null
           comentario?: string | null
+          comment_sentiment?: Database["public"]["Enums"]["comment_sentiment"] | null
+          comment_sentiment_score?: number | null
+          comment_topics?: Database["public"]["Enums"]["comment_topic"][]
           cpf: string
+          cpf_hash?: string | null
           created_at?: string | null
           custo_beneficio?: number | null
           higiene_limpeza?: number | null
           id?: string
+          import_id?: string | null
           instagram?: string | null
           nome: string
+          nps_score: number | null
           qualidade_comida?: number | null
+          table_number?: number | null
           telefone: string
           tempo_espera?: number | null
         }
         Update: {
           ambiente_conforto?: number | null
+          anonymized_at?: string | null
+          area?: Database["public"]["Enums"]["dining_area"] | null
           atendimento?: number | null
+          average_rating?: number | null
           comentario?: string | null
+          comment_sentiment?: Database["public"]["Enums"]["comment_sentiment"] | null
+          comment_sentiment_score?: number | null
+          comment_topics?: Database["public"]["Enums"]["comment_topic"][]
           cpf?: string
+          cpf_hash?: string | null
           created_at?: string | null
           custo_beneficio?: number | null
           higiene_limpeza?: number | null
           id?: string
+          import_id?: string | null
           instagram?: string | null
           nome?: string
+          nps_score?: number | null
           qualidade_comida?: number | null
+          table_number?: number | null
           telefone?: string
           tempo_espera?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "feedbacks_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "feedback_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_settings: {
+        Row: {
+          failed_attempts: number
+          id: boolean
+          locked_until: string | null
+          pin_hash: string
+          pin_salt: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          failed_attempts?: number
+          id?: boolean
+          locked_until?: string | null
+          pin_hash: string
+          pin_salt: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          failed_attempts?: number
+          id?: boolean
+          locked_until?: string | null
+          pin_hash?: string
+          pin_salt?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      rating_criteria: {
+        Row: {
+          active: boolean
+          created_at: string
+          description: string | null
+          id: string
+          key: string
+          label: string
+          required: boolean
+          sort_order: number
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          key: string
+          label: string
+          required?: boolean
+          sort_order?: number
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          key?: string
+          label?: string
+          required?: boolean
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      customer_marketing_consent: {
+        Row: {
+          consented_at: string | null
+          cpf_hash: string | null
+          marketing: boolean | null
+          policy_version: string | null
+        }
+        Relationships: []
+      }
+      feedback_list: {
+        Row: {
+          ambiente_conforto: number | null
+          anonymized_at: string | null
+          area: Database["public"]["Enums"]["dining_area"] | null
+          assignee_id: string | null
+          atendimento: number | null
+          average_rating: number | null
+          comentario: string | null
+          comment_sentiment: Database["public"]["Enums"]["comment_sentiment"] | null
+          comment_sentiment_score: number | null
+          comment_topics: Database["public"]["Enums"]["comment_topic"][] | null
+          cpf: string | null
+          cpf_hash: string | null
+          created_at: string | null
+          custo_beneficio: number | null
+          higiene_limpeza: number | null
+          id: string | null
+          instagram: string | null
+          marketing_opt_in: boolean | null
+          nome: string | null
+          nps_score: number | null
+          qualidade_comida: number | null
+          ratings: Json | null
+          resolution_reason: string | null
+          search_vector: unknown | null
+          sentiment_mismatch: boolean | null
+          status: Database["public"]["Enums"]["feedback_status"] | null
+          table_number: number | null
+          tag_ids: string[] | null
+          telefone: string | null
+          tempo_espera: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      analyze_comment: {
+        Args: { _comentario: string }
+        Returns: {
+          sentiment: Database["public"]["Enums"]["comment_sentiment"]
+          sentiment_score: number
+          topics: Database["public"]["Enums"]["comment_topic"][]
+        }[]
+      }
+      audit_log_actions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          action: string
+        }[]
+      }
+      can_reveal_pii: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      comment_contradicts_rating: {
+        Args: {
+          _average_rating: number
+          _sentiment: Database["public"]["Enums"]["comment_sentiment"]
+        }
+        Returns: boolean
+      }
+      comment_word_frequency: {
+        Args: {
+          _from?: string
+          _limit?: number
+          _sentiment?: Database["public"]["Enums"]["comment_sentiment"]
+          _to?: string
+        }
+        Returns: {
+          feedbacks: number
+          occurrences: number
+          word: string
+        }[]
+      }
+      comment_words: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      customer_directory: {
+        Args: { _search?: string }
+        Returns: {
+          average_rating: number
+          cpf: string
+          cpf_hash: string
+          first_visit: string
+          instagram: string
+          last_visit: string
+          latest_feedback_id: string
+          marketing_opt_in: boolean
+          nome: string
+          telefone: string
+          visits: number
+        }[]
+      }
+      customer_profile: {
+        Args: { _cpf_hash: string }
+        Returns: Json
+      }
+      erase_customer_data: {
+        Args: { _cpf: string }
+        Returns: number
+      }
+      evaluate_feedback_alerts: {
+        Args: { _feedback_id: string }
+        Returns: number
+      }
+      export_customer_data: {
+        Args: { _cpf: string }
+        Returns: Json
+      }
+      feedback_by_area: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          area: Database["public"]["Enums"]["dining_area"]
+          nps_score: number
+          overall_average: number
+          volume: number
+        }[]
+      }
+      feedback_by_table: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          area: Database["public"]["Enums"]["dining_area"]
+          nps_score: number
+          overall_average: number
+          table_number: number
+          volume: number
+        }[]
+      }
+      feedback_by_tag: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          color: string
+          name: string
+          nps_score: number
+          overall_average: number
+          tag_id: string
+          volume: number
+        }[]
+      }
+      feedback_comment_sentiment: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          mismatched: number
+          overall_average: number
+          sentiment: Database["public"]["Enums"]["comment_sentiment"]
+          volume: number
+        }[]
+      }
+      feedback_comment_topics: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          mentions: number
+          negative: number
+          overall_average: number
+          positive: number
+          topic: Database["public"]["Enums"]["comment_topic"]
+        }[]
+      }
+      feedback_import_duplicates: {
+        Args: { _rows: Json }
+        Returns: number[]
+      }
+      feedback_nps: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          detractors: number
+          nps_score: number
+          passives: number
+          promoters: number
+          responses: number
+        }[]
+      }
+      feedback_rating_distribution: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          count: number
+          rating: number
+        }[]
+      }
+      feedback_ratings_json: {
+        Args: { _feedback_id: string }
+        Returns: Json
+      }
+      feedback_summary: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          criteria_averages: Json
+          open_negative: number
+          overall_average: number
+          recurrent_percentage: number
+          total_feedbacks: number
+        }[]
+      }
+      feedback_time_buckets: {
+        Args: { _from?: string; _granularity: string; _to?: string }
+        Returns: {
+          bucket: string
+          criteria_averages: Json
+          nps_score: number
+          overall_average: number
+          volume: number
+        }[]
+      }
+      feedback_visit_exists: {
+        Args: { _cpf: string; _created_at: string }
+        Returns: boolean
+      }
+      feedbacks_in_period: {
+        Args: { _from?: string; _to?: string }
+        Returns: {
+          ambiente_conforto: number | null
+          anonymized_at: string | null
+          area: Database["public"]["Enums"]["dining_area"] | null
+          atendimento: number | null
+          average_rating: number | null
+          comentario: string | null
+          comment_sentiment: Database["public"]["Enums"]["comment_sentiment"] | null
+          comment_sentiment_score: number | null
+          comment_topics: Database["public"]["Enums"]["comment_topic"][]
+          cpf: string
+          cpf_hash: string | null
+          cpf_masked: string | null
+          created_at: string | null
+          custo_beneficio: number | null
+          higiene_limpeza: number | null
+          id: string
+          import_id: string | null
+          instagram: string | null
+          nome: string
+          nps_score: number | null
+          qualidade_comida: number | null
+          search_vector: unknown | null
+          table_number: number | null
+          telefone: string
+          telefone_masked: string | null
+          tempo_espera: number | null
+        }[]
+      }
+      hash_cpf: {
+        Args: { _cpf: string }
+        Returns: string
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      import_feedbacks: {
+        Args: { _import_id: string; _rows: Json }
+        Returns: {
+          imported: number
+          skipped: number
+        }[]
+      }
+      is_staff: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_valid_cpf: {
+        Args: { _cpf: string }
+        Returns: boolean
+      }
+      key_cpf_digest: {
+        Args: { _digest: string }
+        Returns: string
+      }
+      kiosk_pin_updated_at: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      log_audit_event: {
+        Args: {
+          _action: string
+          _cpf_hash?: string
+          _details?: Json
+          _feedback_id?: string
+        }
+        Returns: undefined
+      }
+      mask_cpf: {
+        Args: { _cpf: string }
+        Returns: string
+      }
+      mask_phone: {
+        Args: { _phone: string }
+        Returns: string
+      }
+      reveal_feedback_contacts: {
+        Args: { _feedback_ids: string[]; _purpose?: string }
+        Returns: {
+          cpf: string
+          feedback_id: string
+          telefone: string
+        }[]
+      }
+      rollback_feedback_import: {
+        Args: { _import_id: string }
+        Returns: number
+      }
+      set_kiosk_pin: {
+        Args: { _pin: string }
+        Returns: undefined
+      }
+      staff_directory: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      submit_feedback: {
+        Args: { _consent: Json; _feedback: Json; _ratings: Json }
+        Returns: undefined
+      }
+      unaccent_pt: {
+        Args: { _text: string }
+        Returns: string
+      }
+      verify_kiosk_pin: {
+        Args: { _pin: string }
+        Returns: string
+      }
+      write_audit_log: {
+        Args: {
+          _action: string
+          _cpf_hash: string
+          _details: Json
+          _feedback_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      alert_rule_type: "average_below" | "criterion_at_most" | "keyword"
+      app_role: "admin" | "manager" | "staff"
+      comment_sentiment: "positivo" | "neutro" | "negativo"
+      comment_topic:
+        | "comida"
+        | "drinks"
+        | "livros"
+        | "musica"
+        | "fila"
+        | "preco"
+        | "atendimento"
+        | "ambiente"
+        | "limpeza"
+      dining_area: "salao" | "varanda" | "sebo"
+      feedback_status: "novo" | "em_analise" | "contatado" | "resolvido"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -197,6 +1239,23 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      alert_rule_type: ["average_below", "criterion_at_most", "keyword"],
+      app_role: ["admin", "manager", "staff"],
+      comment_sentiment: ["positivo", "neutro", "negativo"],
+      comment_topic: [
+        "comida",
+        "drinks",
+        "livros",
+        "musica",
+        "fila",
+        "preco",
+        "atendimento",
+        "ambiente",
+        "limpeza",
+      ],
+      dining_area: ["salao", "varanda", "sebo"],
+      feedback_status: ["novo", "em_analise", "contatado", "resolvido"],
+    },
   },
 } as const
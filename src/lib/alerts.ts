@@ -0,0 +1,24 @@
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export type AlertRule = Tables<"alert_rules">;
+export type AlertRuleType = Database["public"]["Enums"]["alert_rule_type"];
+export type AlertSettings = Tables<"alert_settings">;
+export type AlertEvent = Tables<"alert_events">;
+export type AlertEventStatus = "pending" | "sending" | "sent" | "failed";
+
+export const alertRuleTypeLabels: Record<AlertRuleType, string> = {
+  average_below: "Média abaixo de",
+  criterion_at_most: "Nota de critério até",
+  keyword: "Palavras no comentário"
+};
+
+export const alertEventStatusLabels: Record<AlertEventStatus, string> = {
+  pending: "Pendente",
+  sending: "Enviando",
+  sent: "Enviado",
+  failed: "Falhou"
+};
+
+// "demora, frio; sujo" -> ["demora", "frio", "sujo"]
+export const parseList = (value: string) =>
+  value.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
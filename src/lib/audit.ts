@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditLogEntry = Tables<"audit_log">;
+
+// Actions the browser reports itself, everything else is written by database triggers
+export type AppAuditAction = "feedbacks.export" | "customer_profile.view";
+
+// Trigger actions are "<table>.<insert|update|delete>", unknown ones are shown as they are
+export const auditActionLabels: Record<string, string> = {
+  "feedbacks.export": "Exportou avaliações",
+  "customer_profile.view": "Abriu perfil de cliente",
+  "pii.reveal": "Revelou CPF e telefone",
+  "pii.export": "Exportou CPF e telefone",
+  "feedbacks.update": "Alterou avaliação",
+  "feedbacks.delete": "Excluiu avaliação",
+  "feedback_cases.update": "Atualizou acompanhamento",
+  "feedback_notes.insert": "Adicionou nota na avaliação",
+  "feedback_notes.update": "Editou nota da avaliação",
+  "feedback_notes.delete": "Excluiu nota da avaliação",
+  "customer_notes.insert": "Adicionou nota no cliente",
+  "customer_notes.update": "Editou nota do cliente",
+  "customer_notes.delete": "Excluiu nota do cliente",
+  "data_subject_requests.insert": "Atendeu pedido LGPD",
+  "user_roles.insert": "Concedeu papel",
+  "user_roles.update": "Alterou papel",
+  "user_roles.delete": "Removeu papel",
+  "rating_criteria.insert": "Criou critério",
+  "rating_criteria.update": "Alterou critério",
+  "rating_criteria.delete": "Excluiu critério",
+  "dining_tables.insert": "Cadastrou mesa",
+  "dining_tables.update": "Alterou mesa",
+  "dining_tables.delete": "Excluiu mesa",
+  "alert_rules.insert": "Criou regra de alerta",
+  "alert_rules.update": "Alterou regra de alerta",
+  "alert_rules.delete": "Excluiu regra de alerta",
+  "alert_settings.update": "Alterou destinos de alerta",
+  "kiosk_settings.insert": "Definiu PIN do quiosque",
+  "kiosk_settings.update": "Trocou PIN do quiosque",
+  "feedback_imports.insert": "Importou avaliações de CSV",
+  "feedback_imports.update": "Desfez importação de avaliações",
+  "tags.insert": "Criou etiqueta",
+  "tags.update": "Alterou etiqueta",
+  "tags.delete": "Excluiu etiqueta",
+  "feedback_tags.insert": "Etiquetou avaliação",
+  "feedback_tags.delete": "Removeu etiqueta da avaliação"
+};
+
+export const auditActionLabel = (action: string) => auditActionLabels[action] ?? action;
+
+// Throws so callers can refuse to go on when the action couldn't be recorded
+export const logAuditEvent = async (
+  action: AppAuditAction,
+  details: Record<string, Json> = {},
+  target: { feedbackId?: string; cpfHash?: string } = {}
+) => {
+  const { error } = await supabase.rpc('log_audit_event', {
+    _action: action,
+    _details: details,
+    _feedback_id: target.feedbackId,
+    _cpf_hash: target.cpfHash
+  });
+  if (error) throw error;
+};
+
+// Updates come as { column: { old, new } }, everything else as the row itself
+export const describeAuditDetails = (details: Json) => {
+  if (!details || typeof details !== "object" || Array.isArray(details)) return "";
+
+  return Object.entries(details)
+    .map(([key, value]) => {
+      if (value && typeof value === "object" && !Array.isArray(value) && "new" in value) {
+        return `${key}: ${JSON.stringify(value.old ?? null)} → ${JSON.stringify(value.new ?? null)}`;
+      }
+      return `${key}: ${JSON.stringify(value)}`;
+    })
+    .join("; ");
+};
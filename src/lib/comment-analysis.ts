@@ -0,0 +1,33 @@
+import type { Database } from "@/integrations/supabase/types";
+
+// Worked out by analyze_comment in the database whenever a comment is saved
+export type CommentSentiment = Database["public"]["Enums"]["comment_sentiment"];
+export type CommentTopic = Database["public"]["Enums"]["comment_topic"];
+
+export const commentSentimentLabels: Record<CommentSentiment, string> = {
+  positivo: "Positivo",
+  neutro: "Neutro",
+  negativo: "Negativo"
+};
+
+export const commentTopicLabels: Record<CommentTopic, string> = {
+  comida: "Comida",
+  drinks: "Drinks",
+  livros: "Livros",
+  musica: "Música",
+  fila: "Fila e espera",
+  preco: "Preço",
+  atendimento: "Atendimento",
+  ambiente: "Ambiente",
+  limpeza: "Limpeza"
+};
+
+export const commentSentimentColors: Record<CommentSentiment, string> = {
+  positivo: "bg-green-600",
+  neutro: "bg-yellow-500",
+  negativo: "bg-destructive"
+};
+
+// Same rule as comment_contradicts_rating, shown next to the flag so nobody has to guess it
+export const SENTIMENT_MISMATCH_HINT =
+  "Comentário positivo com média até 2 estrelas, ou negativo com média de 4 estrelas ou mais.";
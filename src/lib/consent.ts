@@ -0,0 +1,9 @@
+// Bump the version whenever the consent texts below change, the ledger records which one each customer saw
+export const CONSENT_POLICY_VERSION = "2025-09-15";
+
+export const consentTexts = {
+  dataUsage:
+    "Autorizo o Lardo a tratar meu nome, CPF, telefone e Instagram para registrar esta avaliação e melhorar o atendimento, conforme a LGPD (Lei 13.709/2018).",
+  marketing:
+    "Aceito ser contatado pelo Lardo por telefone, WhatsApp ou Instagram com novidades, eventos e promoções. Posso revogar a qualquer momento."
+};
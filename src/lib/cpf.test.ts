@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { formatCPF, isValidCPF, normalizeCPF } from "./cpf";
+
+describe("normalizeCPF", () => {
+  it("keeps only the 11 digits", () => {
+    expect(normalizeCPF("123.456.789-09")).toBe("12345678909");
+    expect(normalizeCPF("123.456.789-0912")).toBe("12345678909");
+  });
+});
+
+describe("formatCPF", () => {
+  it("masks as the digits are typed", () => {
+    expect(formatCPF("123")).toBe("123");
+    expect(formatCPF("1234")).toBe("123.4");
+    expect(formatCPF("1234567")).toBe("123.456.7");
+    expect(formatCPF("1234567890")).toBe("123.456.789-0");
+    expect(formatCPF("12345678909")).toBe("123.456.789-09");
+  });
+});
+
+describe("isValidCPF", () => {
+  it("accepts CPFs with correct check digits, masked or not", () => {
+    expect(isValidCPF("123.456.789-09")).toBe(true);
+    expect(isValidCPF("52998224725")).toBe(true);
+  });
+
+  it("rejects wrong check digits", () => {
+    expect(isValidCPF("123.456.789-00")).toBe(false);
+    expect(isValidCPF("52998224726")).toBe(false);
+  });
+
+  it("rejects repeated digits and wrong lengths", () => {
+    expect(isValidCPF("111.111.111-11")).toBe(false);
+    expect(isValidCPF("1234567890")).toBe(false);
+    expect(isValidCPF("")).toBe(false);
+  });
+});
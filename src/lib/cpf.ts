@@ -0,0 +1,31 @@
+// CPF helpers: the database stores only the 11 digits, the UI shows "000.000.000-00"
+
+export const normalizeCPF = (value: string) => value.replace(/\D/g, "").slice(0, 11);
+
+export const formatCPF = (value: string) => {
+  const digits = normalizeCPF(value);
+
+  return digits
+    .replace(/^(\d{3})(\d)/, "$1.$2")
+    .replace(/^(\d{3})\.(\d{3})(\d)/, "$1.$2.$3")
+    .replace(/\.(\d{3})(\d{1,2})$/, ".$1-$2");
+};
+
+const checkDigit = (digits: string, length: number) => {
+  const sum = digits
+    .slice(0, length)
+    .split("")
+    .reduce((acc, digit, index) => acc + Number(digit) * (length + 1 - index), 0);
+  const rest = (sum * 10) % 11;
+  return rest === 10 ? 0 : rest;
+};
+
+// Check digits per the Receita Federal algorithm
+export const isValidCPF = (value: string) => {
+  const digits = value.replace(/\D/g, "");
+
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  return checkDigit(digits, 9) === Number(digits[9]) &&
+    checkDigit(digits, 10) === Number(digits[10]);
+};
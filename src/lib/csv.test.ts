@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { parseCSV, stripFormulaGuard, toCSV } from "./csv";
+
+const BOM = "\uFEFF";
+
+describe("toCSV", () => {
+  it("quotes every field and doubles quotes, with CRLF between records", () => {
+    expect(toCSV([{ nome: 'Ana "Aninha"', nota: 5 }, { nome: "Bia", nota: 4 }]))
+      .toBe(`${BOM}"nome","nota"\r\n"Ana ""Aninha""","5"\r\n"Bia","4"`);
+  });
+
+  it("writes decimal commas in semicolon files", () => {
+    expect(toCSV([{ media: 4.5, texto: "4.5" }], { delimiter: ";" }))
+      .toBe(`${BOM}"media";"texto"\r\n"4,5";"4.5"`);
+  });
+
+  it("writes empty cells for null and undefined", () => {
+    expect(toCSV([{ a: null, b: undefined }])).toBe(`${BOM}"a","b"\r\n"",""`);
+  });
+
+  it("is just the BOM without rows", () => {
+    expect(toCSV([])).toBe(BOM);
+  });
+
+  it("guards text that spreadsheets would run as a formula", () => {
+    const csv = toCSV([
+      { c: "=HYPERLINK(\"http://x\")" },
+      { c: "+55 11 98765-4321" },
+      { c: "-ruim" },
+      { c: "@SUM(A1)" },
+      { c: "\t=1" },
+      { c: "ótimo = perfeito" }
+    ]);
+    expect(parseCSV(csv).slice(1).map(([cell]) => cell)).toEqual([
+      "'=HYPERLINK(\"http://x\")",
+      "'+55 11 98765-4321",
+      "'-ruim",
+      "'@SUM(A1)",
+      "'\t=1",
+      "ótimo = perfeito"
+    ]);
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(toCSV([{ delta: -1.5 }])).toBe(`${BOM}"delta"\r\n"-1.5"`);
+  });
+});
+
+describe("stripFormulaGuard", () => {
+  it("removes the apostrophe toCSV added", () => {
+    expect(stripFormulaGuard("'=1+1")).toBe("=1+1");
+    expect(stripFormulaGuard("'-ruim")).toBe("-ruim");
+  });
+
+  it("keeps apostrophes that guard nothing", () => {
+    expect(stripFormulaGuard("'Ana'")).toBe("'Ana'");
+    expect(stripFormulaGuard("ok")).toBe("ok");
+  });
+});
+
+describe("parseCSV", () => {
+  it("reads what toCSV writes", () => {
+    const rows = [{ nome: "Ana, \"A\"", comentario: "linha 1\r\nlinha 2" }];
+    expect(parseCSV(toCSV(rows, { delimiter: ";" }))).toEqual([
+      ["nome", "comentario"],
+      ["Ana, \"A\"", "linha 1\r\nlinha 2"]
+    ]);
+  });
+
+  it("picks the delimiter that appears more in the header", () => {
+    expect(parseCSV("a;b,c;d\n1;2,3;4")).toEqual([["a", "b,c", "d"], ["1", "2,3", "4"]]);
+    expect(parseCSV("a,b\n1,2")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("skips blank lines and accepts a missing final newline", () => {
+    expect(parseCSV("a,b\r\n1,2\r\n\r\n,\r\n3,4")).toEqual([["a", "b"], ["1", "2"], ["3", "4"]]);
+  });
+});
@@ -0,0 +1,92 @@
+export type CSVDelimiter = "," | ";";
+
+export const csvDelimiterLabels: Record<CSVDelimiter, string> = {
+  ";": "Ponto e vírgula (Excel em português)",
+  ",": "Vírgula (padrão internacional)"
+};
+
+const BOM = "\uFEFF";
+
+interface CSVOptions {
+  delimiter?: CSVDelimiter;
+}
+
+// Spreadsheets run text starting with these as a formula, even inside quotes
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Undoes the apostrophe toCSV puts before formula-like text, for files read back in
+export const stripFormulaGuard = (text: string) =>
+  text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+// RFC 4180: every field quoted, quotes doubled, CRLF between records. Semicolon files are meant
+// for Excel pt-BR, which also reads decimals with a comma. The BOM makes Excel pick UTF-8.
+// Text that would be read as a formula (comments and names are typed by customers) gets a
+// leading apostrophe, so it shows as typed instead of running.
+export const toCSV = (rows: Record<string, unknown>[], { delimiter = "," }: CSVOptions = {}) => {
+  if (rows.length === 0) return BOM;
+  const headers = Object.keys(rows[0]);
+  const escape = (value: unknown) => {
+    let text: string;
+    if (typeof value === 'number') {
+      text = delimiter === ';' ? String(value).replace('.', ',') : String(value);
+    } else {
+      text = String(value ?? '');
+      if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+    }
+    return `"${text.replace(/"/g, '""')}"`;
+  };
+  return BOM + [
+    headers.map(escape).join(delimiter),
+    ...rows.map(row => headers.map(header => escape(row[header])).join(delimiter))
+  ].join('\r\n');
+};
+
+// RFC 4180 reader for uploaded files: quoted fields may hold delimiters, doubled quotes and line
+// breaks. The delimiter is whichever of "," and ";" appears more in the header line.
+export const parseCSV = (text: string): string[][] => {
+  const content = text.startsWith(BOM) ? text.slice(1) : text;
+  const headerLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter: CSVDelimiter =
+    (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines, typically the one spreadsheets leave at the end
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
@@ -0,0 +1,22 @@
+import type { Database } from "@/integrations/supabase/types";
+import type { FeedbackListItem } from "./feedback";
+
+export type CustomerSummary = Database["public"]["Functions"]["customer_directory"]["Returns"][number];
+
+// Each feedback in the customer_profile result, with the same columns as in feedback_list
+export type CustomerFeedback = Pick<
+  FeedbackListItem,
+  "id" | "created_at" | "average_rating" | "nps_score" | "ratings" | "comentario" | "table_number" | "area" | "status"
+>;
+
+// Shape of the customer_profile RPC result, which the generated types only know as Json. A type
+// alias rather than an interface, so that Json can be asserted to it.
+export type CustomerProfileData = {
+  customer: CustomerSummary;
+  nps_average: number | null;
+  feedbacks: CustomerFeedback[];
+};
+
+// Profiles are addressed by the keyed CPF hash (see hash_cpf) so the CPF never ends up in URLs or browser history
+export const customerPath = (cpfHash: string) => `/admin/clientes/${cpfHash}`;
+
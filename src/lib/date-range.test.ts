@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { isWithinRange, resolvePreset, toQueryBounds } from "./date-range";
+
+describe("toQueryBounds", () => {
+  it("covers whole days from the start of the first to the end of the last", () => {
+    expect(toQueryBounds({ from: new Date(2025, 8, 1, 15, 30), to: new Date(2025, 8, 3, 9) })).toEqual({
+      from: new Date(2025, 8, 1).toISOString(),
+      to: new Date(2025, 8, 3, 23, 59, 59, 999).toISOString()
+    });
+  });
+
+  it("reads a range without an end as the day it starts on", () => {
+    expect(toQueryBounds({ from: new Date(2025, 8, 1, 15, 30), to: undefined })).toEqual({
+      from: new Date(2025, 8, 1).toISOString(),
+      to: new Date(2025, 8, 1, 23, 59, 59, 999).toISOString()
+    });
+  });
+
+  it("has no bounds without a start", () => {
+    expect(toQueryBounds(undefined)).toEqual({ from: null, to: null });
+    expect(toQueryBounds({ from: undefined })).toEqual({ from: null, to: null });
+  });
+});
+
+describe("resolvePreset", () => {
+  const now = new Date(2025, 8, 18, 20, 30);
+
+  it("counts today in the last days", () => {
+    expect(resolvePreset("last7", now)).toEqual({ from: new Date(2025, 8, 12), to: new Date(2025, 8, 18, 23, 59, 59, 999) });
+  });
+
+  it("has no range for the whole period or a custom one", () => {
+    expect(resolvePreset("all", now)).toBeUndefined();
+    expect(resolvePreset("custom", now)).toBeUndefined();
+  });
+});
+
+describe("isWithinRange", () => {
+  const range = { from: new Date(2025, 8, 1), to: undefined };
+
+  it("includes the whole day of a range without an end and nothing after it", () => {
+    expect(isWithinRange(new Date(2025, 8, 1, 23, 59).toISOString(), range)).toBe(true);
+    expect(isWithinRange(new Date(2025, 8, 2).toISOString(), range)).toBe(false);
+  });
+
+  it("includes everything without a range", () => {
+    expect(isWithinRange("2020-01-01T00:00:00.000Z", undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { endOfDay, startOfDay, startOfMonth, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+
+export type PeriodPreset = "today" | "last7" | "last30" | "thisMonth" | "all" | "custom";
+
+export const periodPresetLabels: Record<PeriodPreset, string> = {
+  today: "Hoje",
+  last7: "Últimos 7 dias",
+  last30: "Últimos 30 dias",
+  thisMonth: "Este mês",
+  all: "Todo o período",
+  custom: "Personalizado"
+};
+
+export const resolvePreset = (preset: PeriodPreset, now = new Date()): DateRange | undefined => {
+  switch (preset) {
+    case "today":
+      return { from: startOfDay(now), to: endOfDay(now) };
+    case "last7":
+      return { from: startOfDay(subDays(now, 6)), to: endOfDay(now) };
+    case "last30":
+      return { from: startOfDay(subDays(now, 29)), to: endOfDay(now) };
+    case "thisMonth":
+      return { from: startOfMonth(now), to: endOfDay(now) };
+    default:
+      return undefined;
+  }
+};
+
+// Inclusive ISO bounds for the Supabase query. A range without an end is the single day it
+// starts on, which is what the calendar holds after the first click.
+export const toQueryBounds = (range: DateRange | undefined) => ({
+  from: range?.from ? startOfDay(range.from).toISOString() : null,
+  to: range?.from ? endOfDay(range.to ?? range.from).toISOString() : null
+});
+
+export const isWithinRange = (date: string, range: DateRange | undefined) => {
+  const { from, to } = toQueryBounds(range);
+  if (!from || !to) return true;
+  const time = new Date(date).getTime();
+  return time >= new Date(from).getTime() && time <= new Date(to).getTime();
+};
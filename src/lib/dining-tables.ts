@@ -0,0 +1,21 @@
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export type DiningTable = Tables<"dining_tables">;
+export type DiningArea = Database["public"]["Enums"]["dining_area"];
+
+export const areaLabels: Record<DiningArea, string> = {
+  salao: "Salão",
+  varanda: "Varanda",
+  sebo: "Sebo"
+};
+
+// Link printed on each table's QR code
+export const tableFeedbackUrl = (tableNumber: number) =>
+  `${window.location.origin}/avaliar?mesa=${tableNumber}`;
+
+// "?mesa=12" -> 12, anything that isn't a positive integer is ignored
+export const parseTableNumber = (value: string | null) => {
+  if (!value || !/^\d{1,4}$/.test(value)) return null;
+  const tableNumber = Number(value);
+  return tableNumber > 0 ? tableNumber : null;
+};
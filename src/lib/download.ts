@@ -0,0 +1,12 @@
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+};
+
+// Date stamp used in exported file names, e.g. "2025-09-18"
+export const fileDateStamp = () => new Date().toISOString().split('T')[0];
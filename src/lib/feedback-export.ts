@@ -0,0 +1,76 @@
+import { areaLabels } from "./dining-tables";
+import { commentSentimentLabels, commentTopicLabels } from "./comment-analysis";
+import { criterionLabel, criterionRating, feedbackStatusLabels, type FeedbackListItem, type RatingCriterion } from "./feedback";
+import type { Tag } from "./tags";
+import type { CSVDelimiter } from "./csv";
+import type { ExportPrivacy } from "./pii";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)"
+};
+
+// "period" ignores the list filters and takes everything in the dashboard period
+export type ExportScope = "period" | "filtered";
+
+export const exportScopeLabels: Record<ExportScope, { label: string; description: string }> = {
+  period: {
+    label: "Todo o período",
+    description: "Todas as avaliações do período selecionado no painel."
+  },
+  filtered: {
+    label: "Visão filtrada",
+    description: "Só o que a lista mostra agora, com busca, filtros e ordenação."
+  }
+};
+
+export interface FeedbackExportOptions {
+  format: ExportFormat;
+  privacy: ExportPrivacy;
+  scope: ExportScope;
+  // CSV only
+  delimiter: CSVDelimiter;
+  // Keys from feedbackExportColumns, in the order they are listed there
+  columns: string[];
+}
+
+export interface FeedbackExportColumn {
+  key: string;
+  label: string;
+  value: (feedback: FeedbackListItem) => string | number | null;
+}
+
+// Personal data columns are not here, they follow the privacy option. Tags are only needed for values.
+export const feedbackExportColumns = (criteria: RatingCriterion[], tags: Tag[] = []): FeedbackExportColumn[] => [
+  { key: "id", label: "ID", value: feedback => feedback.id },
+  { key: "created_at", label: "Data e hora (ISO 8601)", value: feedback => new Date(feedback.created_at).toISOString() },
+  { key: "date", label: "Data", value: feedback => new Date(feedback.created_at).toLocaleDateString('pt-BR') },
+  { key: "table_number", label: "Mesa", value: feedback => feedback.table_number },
+  { key: "area", label: "Área", value: feedback => feedback.area ? areaLabels[feedback.area] : null },
+  ...criteria.map(criterion => ({
+    key: `criterion:${criterion.key}`,
+    label: criterionLabel(criterion),
+    value: (feedback: FeedbackListItem) => criterionRating(feedback, criterion.key)
+  })),
+  { key: "average_rating", label: "Média", value: feedback => Number(feedback.average_rating) },
+  { key: "nps_score", label: "NPS", value: feedback => feedback.nps_score },
+  { key: "status", label: "Status", value: feedback => feedbackStatusLabels[feedback.status] },
+  { key: "comentario", label: "Comentário", value: feedback => feedback.comentario },
+  {
+    key: "comment_sentiment",
+    label: "Tom do comentário",
+    value: feedback => feedback.comment_sentiment ? commentSentimentLabels[feedback.comment_sentiment] : null
+  },
+  {
+    key: "comment_topics",
+    label: "Temas",
+    value: feedback => (feedback.comment_topics ?? []).map(topic => commentTopicLabels[topic]).join(", ")
+  },
+  {
+    key: "tags",
+    label: "Etiquetas",
+    value: feedback => (feedback.tag_ids ?? []).map(id => tags.find(tag => tag.id === id)?.name).filter(Boolean).join(", ")
+  }
+];
@@ -0,0 +1,113 @@
+import type { DateRange } from "react-day-picker";
+import { supabase } from "@/integrations/supabase/client";
+import { toQueryBounds } from "./date-range";
+import { npsCategoryRanges, type NpsCategory } from "./nps";
+import type { DiningArea } from "./dining-tables";
+import type { FeedbackStatus } from "./feedback";
+import type { CommentSentiment, CommentTopic } from "./comment-analysis";
+
+export type SortBy = "recent" | "best" | "worst";
+export type ContactFilter = "all" | "opted-in";
+export type StatusFilter = FeedbackStatus | "open" | "all";
+export type AssigneeFilter = "all" | "mine" | "unassigned";
+export type NpsFilter = NpsCategory | "all";
+// Select values: a whole area or a single table
+export type LocationFilter = "all" | `area:${DiningArea}` | `mesa:${number}`;
+// "mismatch" is a comment whose sentiment contradicts its stars
+export type SentimentFilter = CommentSentiment | "mismatch" | "all";
+export type TopicFilter = CommentTopic | "all";
+// "all" or a tag id
+export type TagFilter = string;
+
+// Everything the feedback list can be narrowed by, so exports can reproduce what's on screen
+export interface FeedbackListFilters {
+  dateRange: DateRange | undefined;
+  sortBy: SortBy;
+  // "all" or the minimum average as a string, straight from the select
+  minRating: string;
+  contact: ContactFilter;
+  nps: NpsFilter;
+  location: LocationFilter;
+  sentiment: SentimentFilter;
+  topic: TopicFilter;
+  tag: TagFilter;
+  status: StatusFilter;
+  assignee: AssigneeFilter;
+  search: string;
+}
+
+export const defaultFeedbackListFilters: FeedbackListFilters = {
+  dateRange: undefined,
+  sortBy: "recent",
+  minRating: "all",
+  contact: "all",
+  nps: "all",
+  location: "all",
+  sentiment: "all",
+  topic: "all",
+  tag: "all",
+  status: "all",
+  assignee: "all",
+  search: ""
+};
+
+export const feedbackListQuery = (filters: FeedbackListFilters, userId: string | undefined) => {
+  const { from, to } = toQueryBounds(filters.dateRange);
+  let query = supabase
+    .from('feedback_list')
+    .select('*', { count: 'exact' });
+
+  if (from && to) {
+    query = query.gte('created_at', from).lte('created_at', to);
+  }
+  if (filters.minRating !== "all") {
+    query = query.gte('average_rating', Number(filters.minRating));
+  }
+  if (filters.contact === "opted-in") {
+    query = query.eq('marketing_opt_in', true);
+  }
+  if (filters.nps !== "all") {
+    const [min, max] = npsCategoryRanges[filters.nps];
+    query = query.gte('nps_score', min).lte('nps_score', max);
+  }
+  if (filters.location.startsWith("area:")) {
+    query = query.eq('area', filters.location.slice(5) as DiningArea);
+  } else if (filters.location.startsWith("mesa:")) {
+    query = query.eq('table_number', Number(filters.location.slice(5)));
+  }
+  if (filters.sentiment === "mismatch") {
+    query = query.eq('sentiment_mismatch', true);
+  } else if (filters.sentiment !== "all") {
+    query = query.eq('comment_sentiment', filters.sentiment);
+  }
+  if (filters.topic !== "all") {
+    query = query.contains('comment_topics', [filters.topic]);
+  }
+  if (filters.tag !== "all") {
+    query = query.contains('tag_ids', [filters.tag]);
+  }
+  if (filters.status === "open") {
+    query = query.neq('status', 'resolvido');
+  } else if (filters.status !== "all") {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.assignee === "mine" && userId) {
+    query = query.eq('assignee_id', userId);
+  } else if (filters.assignee === "unassigned") {
+    query = query.is('assignee_id', null);
+  }
+  if (filters.search) {
+    query = query.textSearch('search_vector', filters.search, { config: 'portuguese', type: 'websearch' });
+  }
+
+  if (filters.sortBy === "recent") {
+    query = query.order('created_at', { ascending: false });
+  } else {
+    query = query
+      .order('average_rating', { ascending: filters.sortBy === "worst" })
+      .order('created_at', { ascending: false });
+  }
+
+  // Ties on the sort columns would otherwise come back in any order, repeating or skipping rows across pages
+  return query.order('id');
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { autoMapColumns, importFields, isReadyRow, parseImportDate, validateImportRow, visitKey, type ImportFeedback } from "./feedback-import";
+import type { RatingCriterion } from "./feedback";
+
+const criteria = [
+  { id: "1", key: "comida", label: "Comida", active: true },
+  { id: "2", key: "atendimento", label: "Atendimento", active: true }
+] as RatingCriterion[];
+
+const headers = ["Nome", "CPF", "Telefone", "Data", "Comida", "Atendimento", "NPS", "Mesa", "Comentário"];
+const mapping = autoMapColumns(headers, importFields(criteria));
+const validCells = ["Ana Souza", "123.456.789-09", "(11) 98765-4321", "18/09/2025 20:30", "5", "4", "9", "12", "Tudo ótimo"];
+
+describe("parseImportDate", () => {
+  it("reads ISO 8601 timestamps as written by the export", () => {
+    expect(parseImportDate("2025-09-18T23:30:00.000Z")?.toISOString()).toBe("2025-09-18T23:30:00.000Z");
+  });
+
+  it("places dates without a time at local noon", () => {
+    const date = parseImportDate("2025-09-18");
+    expect([date?.getFullYear(), date?.getMonth(), date?.getDate(), date?.getHours()]).toEqual([2025, 8, 18, 12]);
+    expect(parseImportDate("18/09/2025")?.getTime()).toBe(date?.getTime());
+  });
+
+  it("reads dd/mm/yyyy with time, seconds and two-digit years", () => {
+    expect(parseImportDate("18/09/2025 20:30")?.getTime()).toBe(new Date(2025, 8, 18, 20, 30, 0).getTime());
+    expect(parseImportDate("1/9/25, 8:05:09")?.getTime()).toBe(new Date(2025, 8, 1, 8, 5, 9).getTime());
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(parseImportDate("31/02/2025")).toBeNull();
+    expect(parseImportDate("2025-13-01")).toBeNull();
+    expect(parseImportDate("18/09/2025 25:00")).toBeNull();
+  });
+
+  it("rejects other formats", () => {
+    expect(parseImportDate("")).toBeNull();
+    expect(parseImportDate("setembro de 2025")).toBeNull();
+    expect(parseImportDate("09-18-2025")).toBeNull();
+  });
+});
+
+describe("validateImportRow", () => {
+  it("maps the export headers on its own", () => {
+    expect(mapping).toMatchObject({ nome: 0, cpf: 1, telefone: 2, created_at: 3, "criterion:comida": 4, nps_score: 6, comentario: 8 });
+  });
+
+  it("builds the feedback for a valid row", () => {
+    const row = validateImportRow(validCells, 2, mapping, criteria);
+    expect(row).toMatchObject({ line: 2, status: "ready", errors: [] });
+    expect(row.feedback).toEqual({
+      nome: "Ana Souza",
+      cpf: "12345678909",
+      telefone: "+5511987654321",
+      instagram: "",
+      comentario: "Tudo ótimo",
+      created_at: new Date(2025, 8, 18, 20, 30).toISOString(),
+      nps_score: 9,
+      table_number: 12,
+      ratings: { comida: 5, atendimento: 4 }
+    });
+  });
+
+  it("accepts decimal-looking whole numbers and skips empty ratings", () => {
+    const cells = [...validCells];
+    cells[4] = "4,0";
+    cells[5] = "";
+    cells[6] = "";
+    const row = validateImportRow(cells, 2, mapping, criteria);
+    expect(row.feedback?.ratings).toEqual({ comida: 4 });
+    expect(row.feedback?.nps_score).toBeNull();
+  });
+
+  it("reads cells the CSV export guarded against formulas", () => {
+    const cells = [...validCells];
+    cells[8] = "'-faltou sobremesa";
+    expect(validateImportRow(cells, 2, mapping, criteria).feedback?.comentario).toBe("-faltou sobremesa");
+  });
+
+  it("lists every problem of an invalid row", () => {
+    const row = validateImportRow(["", "111.111.111-11", "123", "31/02/2025", "6", "", "11", "0", ""], 7, mapping, criteria);
+    expect(row).toMatchObject({ line: 7, status: "error", feedback: null });
+    expect(row.errors).toEqual([
+      "Nome vazio",
+      'CPF inválido: "111.111.111-11"',
+      'Telefone inválido: "123"',
+      'Data inválida: "31/02/2025"',
+      'Comida: nota "6" fora de 1 a 5',
+      'NPS "11" fora de 0 a 10',
+      'Mesa inválida: "0"'
+    ]);
+  });
+
+  it("requires at least one rating", () => {
+    const cells = [...validCells];
+    cells[4] = "";
+    cells[5] = "";
+    expect(validateImportRow(cells, 2, mapping, criteria).errors).toEqual(["Nenhuma nota preenchida"]);
+  });
+
+  it("only counts ready rows as ready to import", () => {
+    const row = validateImportRow(validCells, 2, mapping, criteria);
+    expect(isReadyRow(row)).toBe(true);
+    expect(isReadyRow({ ...row, status: "duplicate" })).toBe(false);
+    expect(isReadyRow(validateImportRow([], 3, mapping, criteria))).toBe(false);
+  });
+
+  it("rejects dates in the future", () => {
+    const cells = [...validCells];
+    cells[3] = `01/01/${new Date().getFullYear() + 1}`;
+    expect(validateImportRow(cells, 2, mapping, criteria).errors).toEqual(["Data no futuro"]);
+  });
+});
+
+describe("visitKey", () => {
+  const feedback = (created_at: string) => ({ cpf: "12345678909", created_at }) as ImportFeedback;
+
+  it("is one key per CPF per São Paulo day", () => {
+    expect(visitKey(feedback("2025-09-18T12:00:00Z"))).toBe("12345678909:2025-09-18");
+    expect(visitKey(feedback("2025-09-18T13:00:00Z"))).toBe(visitKey(feedback("2025-09-19T02:59:00Z")));
+  });
+
+  it("puts late evenings in São Paulo on that day, not the UTC one", () => {
+    expect(visitKey(feedback("2025-09-19T02:30:00Z"))).toBe("12345678909:2025-09-18");
+    expect(visitKey(feedback("2025-09-19T03:00:00Z"))).toBe("12345678909:2025-09-19");
+  });
+});
@@ -0,0 +1,201 @@
+import { isValidCPF, normalizeCPF } from "./cpf";
+import { stripFormulaGuard } from "./csv";
+import { isValidPhone, toE164 } from "./phone";
+import { criterionLabel, type RatingCriterion } from "./feedback";
+
+// Rows sent to import_feedbacks per call
+export const IMPORT_BATCH_SIZE = 200;
+
+export interface ImportField {
+  // Criteria are "criterion:<key>"
+  key: string;
+  label: string;
+  required: boolean;
+  // Header names recognized without manual mapping, the first ones win
+  aliases: string[];
+}
+
+// Column index per field key, fields left out are not imported
+export type ImportMapping = Record<string, number>;
+
+// What import_feedbacks expects for each row. A type rather than an interface so it passes as Json.
+export type ImportFeedback = {
+  nome: string;
+  cpf: string;
+  telefone: string;
+  instagram: string;
+  comentario: string;
+  created_at: string;
+  nps_score: number | null;
+  table_number: number | null;
+  ratings: Record<string, number>;
+};
+
+export type ImportRowStatus = "ready" | "error" | "duplicate";
+
+export interface ImportRow {
+  // Line in the file, counting the header as 1
+  line: number;
+  status: ImportRowStatus;
+  feedback: ImportFeedback | null;
+  errors: string[];
+}
+
+// Rows that will be imported, with the feedback they carry
+export const isReadyRow = (row: ImportRow): row is ImportRow & { feedback: ImportFeedback } =>
+  row.status === "ready" && row.feedback !== null;
+
+export const importRowStatusLabels: Record<ImportRowStatus, string> = {
+  ready: "Pronta",
+  error: "Com erro",
+  duplicate: "Duplicada"
+};
+
+// The headers exportFeedbacks writes are listed first, so its files map themselves
+export const importFields = (criteria: RatingCriterion[]): ImportField[] => [
+  { key: "nome", label: "Nome", required: true, aliases: ["Nome", "Nome completo", "Name"] },
+  { key: "cpf", label: "CPF", required: true, aliases: ["CPF"] },
+  { key: "telefone", label: "Telefone", required: true, aliases: ["Telefone", "Celular", "WhatsApp", "Phone"] },
+  { key: "instagram", label: "Instagram", required: false, aliases: ["Instagram"] },
+  {
+    key: "created_at",
+    label: "Data",
+    required: true,
+    // "Carimbo de data/hora" is the timestamp column of Google Forms in Portuguese
+    aliases: ["Data e hora (ISO 8601)", "Data", "Carimbo de data/hora", "Timestamp"]
+  },
+  { key: "table_number", label: "Mesa", required: false, aliases: ["Mesa"] },
+  ...criteria.map(criterion => ({
+    key: `criterion:${criterion.key}`,
+    label: criterion.label,
+    required: false,
+    aliases: [criterionLabel(criterion), criterion.label, criterion.key]
+  })),
+  { key: "nps_score", label: "NPS", required: false, aliases: ["NPS", "Recomendação"] },
+  { key: "comentario", label: "Comentário", required: false, aliases: ["Comentário", "Comentários", "Comentario"] }
+];
+
+const normalizeHeader = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+export const autoMapColumns = (headers: string[], fields: ImportField[]): ImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ImportMapping = {};
+
+  for (const field of fields) {
+    for (const alias of field.aliases) {
+      const index = normalized.indexOf(normalizeHeader(alias));
+      if (index !== -1 && !Object.values(mapping).includes(index)) {
+        mapping[field.key] = index;
+        break;
+      }
+    }
+  }
+  return mapping;
+};
+
+// ISO 8601 (what the export writes) or "dd/mm/aaaa [hh:mm[:ss]]" as typed in spreadsheets.
+// Dates without a time are placed at noon so no time zone pushes them into another day.
+export const parseImportDate = (value: string): Date | null => {
+  const text = value.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    const [year, month, day] = text.split("-").map(Number);
+    return validDate(year, month, day, 12, 0, 0);
+  }
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+
+  const [, day, month, year, hours, minutes, seconds] = match;
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  return hours === undefined
+    ? validDate(fullYear, Number(month), Number(day), 12, 0, 0)
+    : validDate(fullYear, Number(month), Number(day), Number(hours), Number(minutes), Number(seconds ?? 0));
+};
+
+// Rejects the overflow Date would silently accept, like 31/02
+const validDate = (year: number, month: number, day: number, hours: number, minutes: number, seconds: number) => {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day &&
+    date.getHours() === hours && date.getMinutes() === minutes
+    ? date
+    : null;
+};
+
+// "4", "4,0" and "4.0" are all 4, anything fractional or out of range is null
+const parseInteger = (value: string, min: number, max: number) => {
+  const number = Number(value.trim().replace(",", "."));
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+};
+
+export const validateImportRow = (cells: string[], line: number, mapping: ImportMapping, criteria: RatingCriterion[]): ImportRow => {
+  const errors: string[] = [];
+  const cell = (key: string) => (mapping[key] === undefined ? "" : stripFormulaGuard(cells[mapping[key]] ?? "").trim());
+
+  const nome = cell("nome");
+  if (!nome) errors.push("Nome vazio");
+
+  const cpf = normalizeCPF(cell("cpf"));
+  if (!isValidCPF(cpf)) errors.push(`CPF inválido: "${cell("cpf")}"`);
+
+  const telefone = cell("telefone");
+  if (!isValidPhone(telefone)) errors.push(`Telefone inválido: "${telefone}"`);
+
+  const createdAt = parseImportDate(cell("created_at"));
+  if (!createdAt) {
+    errors.push(`Data inválida: "${cell("created_at")}"`);
+  } else if (createdAt.getTime() > Date.now()) {
+    errors.push("Data no futuro");
+  }
+
+  const ratings: Record<string, number> = {};
+  let filledRatings = 0;
+  for (const criterion of criteria) {
+    const value = cell(`criterion:${criterion.key}`);
+    if (!value) continue;
+    filledRatings++;
+    const rating = parseInteger(value, 1, 5);
+    if (rating === null) {
+      errors.push(`${criterion.label}: nota "${value}" fora de 1 a 5`);
+    } else {
+      ratings[criterion.key] = rating;
+    }
+  }
+  if (filledRatings === 0) errors.push("Nenhuma nota preenchida");
+
+  const npsValue = cell("nps_score");
+  const npsScore = npsValue ? parseInteger(npsValue, 0, 10) : null;
+  if (npsValue && npsScore === null) errors.push(`NPS "${npsValue}" fora de 0 a 10`);
+
+  const tableValue = cell("table_number");
+  const tableNumber = tableValue ? parseInteger(tableValue, 1, 9999) : null;
+  if (tableValue && tableNumber === null) errors.push(`Mesa inválida: "${tableValue}"`);
+
+  if (errors.length > 0 || !createdAt) return { line, status: "error", feedback: null, errors };
+
+  return {
+    line,
+    status: "ready",
+    errors,
+    feedback: {
+      nome,
+      cpf,
+      telefone: toE164(telefone),
+      instagram: cell("instagram").replace(/^@/, ""),
+      comentario: cell("comentario"),
+      created_at: createdAt.toISOString(),
+      nps_score: npsScore,
+      table_number: tableNumber,
+      ratings
+    }
+  };
+};
+
+// Same rule as feedback_visit_exists: one visit per CPF per day, São Paulo time
+export const visitKey = (feedback: ImportFeedback) =>
+  `${feedback.cpf}:${new Date(feedback.created_at).toLocaleDateString("sv-SE", { timeZone: "America/Sao_Paulo" })}`;
@@ -0,0 +1,31 @@
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+export type RatingCriterion = Tables<"rating_criteria">;
+export type FeedbackStatus = Database["public"]["Enums"]["feedback_status"];
+
+// Row of the feedback_list view. Views come out of the type generator with every column
+// nullable, so check the ones that really can be, e.g. cpf_hash once the customer is anonymized.
+export type FeedbackListItem = Tables<"feedback_list">;
+
+// ratings is keyed by rating_criteria.key and includes ratings for criteria retired since
+export const criterionRating = (feedback: Pick<FeedbackListItem, "ratings">, key: string): number | null => {
+  const { ratings } = feedback;
+  if (!ratings || typeof ratings !== "object" || Array.isArray(ratings)) return null;
+  const rating = ratings[key];
+  return typeof rating === "number" ? rating : null;
+};
+
+export const criterionLabel = (criterion: RatingCriterion) =>
+  criterion.active ? criterion.label : `${criterion.label} (inativo)`;
+
+// Average at or below this is highlighted in the list and counted as negative by feedback_summary
+export const NEGATIVE_RATING_THRESHOLD = 3;
+
+export const isNegativeRating = (averageRating: number) => averageRating <= NEGATIVE_RATING_THRESHOLD;
+
+export const feedbackStatusLabels: Record<FeedbackStatus, string> = {
+  novo: "Novo",
+  em_analise: "Em análise",
+  contatado: "Contatado",
+  resolvido: "Resolvido"
+};
@@ -0,0 +1,22 @@
+export type NpsCategory = "promoter" | "passive" | "detractor";
+
+export const NPS_QUESTION = "De 0 a 10, o quanto você recomendaria o Lardo para um amigo?";
+
+export const npsCategoryLabels: Record<NpsCategory, string> = {
+  promoter: "Promotores",
+  passive: "Neutros",
+  detractor: "Detratores"
+};
+
+// Inclusive score bounds, matching the feedback_nps RPC
+export const npsCategoryRanges: Record<NpsCategory, [number, number]> = {
+  promoter: [9, 10],
+  passive: [7, 8],
+  detractor: [0, 6]
+};
+
+export const npsCategory = (score: number): NpsCategory => {
+  if (score >= 9) return "promoter";
+  if (score >= 7) return "passive";
+  return "detractor";
+};
@@ -0,0 +1,51 @@
+import type { FeedbackSubmission } from "./submit-feedback";
+
+const DB_NAME = "lardo-feedback";
+const STORE = "pending-submissions";
+
+export interface QueuedSubmission extends FeedbackSubmission {
+  attempts: number;
+  // Epoch ms before which the submission is not retried
+  nextAttemptAt: number;
+  // Set when the database refused it: kept on the device but no longer retried on its own
+  rejectedAt?: number;
+  rejectionReason?: string;
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// put() keyed by the submission id, so queueing the same submission twice keeps a single entry
+export const saveQueuedSubmission = (submission: QueuedSubmission) =>
+  withStore("readwrite", store => store.put(submission));
+
+export const listQueuedSubmissions = () =>
+  withStore<QueuedSubmission[]>("readonly", store => store.getAll());
+
+export const removeQueuedSubmission = (id: string) =>
+  withStore("readwrite", store => store.delete(id));
+
+// 5s, 10s, 20s... capped at 5 minutes
+export const retryDelay = (attempts: number) => Math.min(5_000 * 2 ** attempts, 300_000);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { fetchAllRows, MAX_ROWS } from "./paging";
+
+// Serves a fixed table like PostgREST would, at most `cap` rows per response
+const table = (size: number, cap = MAX_ROWS) => {
+  const rows = Array.from({ length: size }, (_, index) => index);
+  const ranges: [number, number][] = [];
+  const fetchPage = async (from: number, to: number) => {
+    ranges.push([from, to]);
+    return { data: rows.slice(from, Math.min(to + 1, from + cap)), error: null, count: rows.length };
+  };
+  return { rows, ranges, fetchPage };
+};
+
+describe("fetchAllRows", () => {
+  it("reads past max_rows until the count", async () => {
+    const { rows, ranges, fetchPage } = table(2500);
+    expect(await fetchAllRows(fetchPage)).toEqual(rows);
+    expect(ranges).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it("keeps going when the server caps pages lower than asked", async () => {
+    const { rows, fetchPage } = table(450, 200);
+    expect(await fetchAllRows(fetchPage)).toEqual(rows);
+  });
+
+  it("stops after one request for empty results", async () => {
+    const { ranges, fetchPage } = table(0);
+    expect(await fetchAllRows(fetchPage)).toEqual([]);
+    expect(ranges).toHaveLength(1);
+  });
+
+  it("passes query errors through", async () => {
+    const error = { message: "permission denied" };
+    await expect(fetchAllRows(async () => ({ data: null, error, count: null }))).rejects.toBe(error);
+  });
+
+  it("fails without an exact count", async () => {
+    await expect(fetchAllRows(async () => ({ data: [1], error: null, count: null }))).rejects.toThrow(/count/);
+  });
+
+  it("fails when rows change between pages", async () => {
+    let count = 1500;
+    const fetchPage = async (from: number, to: number) => {
+      const page = { data: Array.from({ length: Math.min(to + 1, count) - from }, (_, index) => from + index), error: null, count };
+      count++;
+      return page;
+    };
+    await expect(fetchAllRows(fetchPage)).rejects.toThrow(/changed/);
+  });
+
+  it("fails when pages run out before the count", async () => {
+    const fetchPage = async (from: number) => ({ data: from === 0 ? [1, 2] : [], error: null, count: 3 });
+    await expect(fetchAllRows(fetchPage)).rejects.toThrow(/stopped/);
+  });
+});
@@ -0,0 +1,29 @@
+// PostgREST cuts every response at max_rows (1000 on Supabase) without raising an error, RPCs
+// returning sets included. Anything that needs all rows has to read them in pages.
+export const MAX_ROWS = 1000;
+
+interface Page<T> {
+  data: T[] | null;
+  error: unknown;
+  count: number | null;
+}
+
+// Reads fetchPage(from, to) until the exact count the first page reported. The query needs
+// { count: 'exact' } and a total order, otherwise pages can overlap. Rows added or removed
+// while reading shift the pages, so a changed count fails instead of returning a wrong set.
+export const fetchAllRows = async <T>(fetchPage: (from: number, to: number) => PromiseLike<Page<T>>) => {
+  const rows: T[] = [];
+  let total: number | null = null;
+
+  do {
+    const { data, error, count } = await fetchPage(rows.length, rows.length + MAX_ROWS - 1);
+    if (error) throw error;
+    if (count === null) throw new Error("Row count missing, query needs { count: 'exact' }");
+    if (total !== null && count !== total) throw new Error(`Row count changed while paging (${total} → ${count})`);
+    total = count;
+    if (rows.length < total && !data?.length) throw new Error(`Paging stopped at ${rows.length} of ${total} rows`);
+    rows.push(...(data || []));
+  } while (rows.length < total);
+
+  return rows;
+};
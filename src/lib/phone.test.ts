@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { formatPhone, isValidPhone, normalizePhone, toE164, whatsappLink } from "./phone";
+
+describe("normalizePhone", () => {
+  it("keeps DDD and number, dropping the +55 country code", () => {
+    expect(normalizePhone("(11) 99999-8888")).toBe("11999998888");
+    expect(normalizePhone("+55 11 99999-8888")).toBe("11999998888");
+    expect(normalizePhone("+551132345678")).toBe("1132345678");
+  });
+});
+
+describe("formatPhone", () => {
+  it("masks as the digits are typed", () => {
+    expect(formatPhone("1")).toBe("(1");
+    expect(formatPhone("119")).toBe("(11) 9");
+    expect(formatPhone("1132345678")).toBe("(11) 3234-5678");
+    expect(formatPhone("11999998888")).toBe("(11) 99999-8888");
+  });
+
+  it("formats stored E.164 numbers", () => {
+    expect(formatPhone("+5511999998888")).toBe("(11) 99999-8888");
+  });
+});
+
+describe("isValidPhone", () => {
+  it("accepts mobiles and landlines with a known DDD", () => {
+    expect(isValidPhone("(11) 99999-8888")).toBe(true);
+    expect(isValidPhone("(21) 3234-5678")).toBe(true);
+    expect(isValidPhone("+5511999998888")).toBe(true);
+  });
+
+  it("rejects unknown DDDs", () => {
+    expect(isValidPhone("(10) 99999-8888")).toBe(false);
+    expect(isValidPhone("(23) 3234-5678")).toBe(false);
+  });
+
+  it("rejects numbers that are neither mobile nor landline", () => {
+    expect(isValidPhone("(11) 89999-8888")).toBe(false);
+    expect(isValidPhone("(11) 7234-5678")).toBe(false);
+    expect(isValidPhone("(11) 3234-567")).toBe(false);
+  });
+});
+
+describe("toE164", () => {
+  it("prefixes the Brazilian country code", () => {
+    expect(toE164("(11) 99999-8888")).toBe("+5511999998888");
+  });
+});
+
+describe("whatsappLink", () => {
+  it("points at wa.me with the full number", () => {
+    expect(whatsappLink("+5511999998888")).toBe("https://wa.me/5511999998888");
+  });
+});
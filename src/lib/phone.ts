@@ -0,0 +1,48 @@
+// Brazilian phone helpers: the database stores E.164 ("+5511999999999"), the UI shows "(11) 99999-9999"
+
+const VALID_DDDS = [
+  11, 12, 13, 14, 15, 16, 17, 18, 19,
+  21, 22, 24, 27, 28,
+  31, 32, 33, 34, 35, 37, 38,
+  41, 42, 43, 44, 45, 46, 47, 48, 49,
+  51, 53, 54, 55,
+  61, 62, 63, 64, 65, 66, 67, 68, 69,
+  71, 73, 74, 75, 77, 79,
+  81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 92, 93, 94, 95, 96, 97, 98, 99
+];
+
+// National digits only (DDD + number), dropping a leading +55 country code
+export const normalizePhone = (value: string) => {
+  const digits = value.replace(/\D/g, "");
+  const national = digits.length > 11 && digits.startsWith("55") ? digits.slice(2) : digits;
+  return national.slice(0, 11);
+};
+
+export const formatPhone = (value: string) => {
+  const digits = normalizePhone(value);
+
+  if (digits.length <= 2) return digits.replace(/^(\d{1,2})/, "($1");
+  if (digits.length <= 6) return digits.replace(/^(\d{2})(\d+)/, "($1) $2");
+  // Landlines have 8 digits after the DDD, mobiles 9
+  if (digits.length <= 10) return digits.replace(/^(\d{2})(\d{4})(\d+)/, "($1) $2-$3");
+  return digits.replace(/^(\d{2})(\d{5})(\d{4})/, "($1) $2-$3");
+};
+
+export const isValidPhone = (value: string) => {
+  const digits = normalizePhone(value);
+  const ddd = Number(digits.slice(0, 2));
+  const number = digits.slice(2);
+
+  if (!VALID_DDDS.includes(ddd)) return false;
+
+  // Mobiles start with 9, landlines with 2 to 5
+  if (number.length === 9) return number.startsWith("9");
+  if (number.length === 8) return /^[2-5]/.test(number);
+  return false;
+};
+
+export const toE164 = (value: string) => `+55${normalizePhone(value)}`;
+
+// Link for staff to message the customer on WhatsApp
+export const whatsappLink = (value: string) => `https://wa.me/55${normalizePhone(value)}`;
@@ -0,0 +1,51 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { AppRole } from "@/hooks/use-auth";
+import { MAX_ROWS } from "@/lib/paging";
+
+// CPF and phone arrive masked ("***.456.789-**", "(11) *****-4321"), staff have no grant on the
+// raw columns. Roles from this one up can reveal them, which the database records in the audit
+// log. Mirrors can_reveal_pii.
+export const PII_REVEAL_ROLE: AppRole = "manager";
+
+export type ExportPrivacy = "omit" | "pseudonymize" | "full";
+
+export const exportPrivacyLabels: Record<ExportPrivacy, { label: string; description: string }> = {
+  omit: {
+    label: "Sem dados pessoais",
+    description: "Remove nome, CPF, telefone e Instagram."
+  },
+  pseudonymize: {
+    label: "Pseudonimizado",
+    description: "Troca os dados pessoais por um código por cliente, que continua permitindo contar visitas."
+  },
+  full: {
+    label: "Completo",
+    description: "Inclui CPF e telefone sem máscara. A exportação fica registrada."
+  }
+};
+
+export interface RevealedContact {
+  cpf: string;
+  telefone: string;
+}
+
+// Keyed by feedback id, anonymized feedbacks are left out. Asked for in batches, the response
+// would be cut at max_rows.
+export const revealContacts = async (feedbackIds: string[], purpose: "view" | "export" = "view") => {
+  const contacts = new Map<string, RevealedContact>();
+
+  for (let start = 0; start < feedbackIds.length; start += MAX_ROWS) {
+    const { data, error } = await supabase.rpc('reveal_feedback_contacts', {
+      _feedback_ids: feedbackIds.slice(start, start + MAX_ROWS),
+      _purpose: purpose
+    });
+
+    if (error) throw error;
+    (data || []).forEach(({ feedback_id, cpf, telefone }) => contacts.set(feedback_id, { cpf, telefone }));
+  }
+  return contacts;
+};
+
+// Same customer, same code, without saying who it is. cpf_hash is keyed with a secret that stays
+// in the database (see hash_cpf), so the code can't be traced back to the CPF by brute force.
+export const pseudonym = (cpfHash: string) => `Cliente ${cpfHash.slice(0, 8)}`;
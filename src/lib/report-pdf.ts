@@ -0,0 +1,174 @@
+import { jsPDF } from "jspdf";
+
+export interface ChartImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface ReportComment {
+  date: string;
+  average: number;
+  comentario: string;
+}
+
+export interface ReportData {
+  periodLabel: string;
+  headline: { label: string; value: string }[];
+  charts: { title: string; image: ChartImage; caption?: string }[];
+  topComments: ReportComment[];
+  bottomComments: ReportComment[];
+  // The "Ponto de Melhoria" insight from the panel, null when nothing was rated
+  improvement: string | null;
+}
+
+// Renders the recharts <svg> inside a container to a PNG, white background, at twice the
+// on-screen size so it stays sharp when printed
+export const chartToImage = async (container: HTMLElement | null): Promise<ChartImage | null> => {
+  const svg = container?.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  // Text inherits the page font on screen, the standalone image needs it spelled out
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render chart"));
+      image.src = url;
+    });
+
+    const scale = 2;
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext("2d")!;
+    context.fillStyle = "#FFFFFF";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return { dataUrl: canvas.toDataURL("image/png"), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// The built-in PDF fonts only cover Latin-1, emoji and the like would come out as garbage
+const pdfText = (text: string) => text.replace(/[^\u0020-\u00FF\n]/g, "").trim();
+
+const BRAND: [number, number, number] = [167, 32, 38];
+
+// A4 portrait, numbers first, then charts, comments and the insight
+export const buildReportPdf = ({ periodLabel, headline, charts, topComments, bottomComments, improvement }: ReportData) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(14);
+    doc.setFontSize(13);
+    doc.setTextColor(...BRAND);
+    doc.text(title, margin, y + 5);
+    y += 10;
+  };
+
+  doc.setFontSize(18);
+  doc.setTextColor(...BRAND);
+  doc.text("Relatório de Avaliações - Lardo", margin, y + 6);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Período: ${periodLabel} · Gerado em ${new Date().toLocaleString("pt-BR")}`, margin, y + 13);
+  y += 22;
+
+  // Headline numbers as a grid of boxes, three per row
+  const boxWidth = contentWidth / 3;
+  const boxHeight = 20;
+  headline.forEach(({ label, value }, index) => {
+    const column = index % 3;
+    if (column === 0 && index > 0) y += boxHeight + 3;
+    if (column === 0) ensureSpace(boxHeight);
+    const x = margin + column * boxWidth;
+
+    doc.setDrawColor(220);
+    doc.roundedRect(x, y, boxWidth - 3, boxHeight, 2, 2);
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(pdfText(label), x + 3, y + 6);
+    doc.setFontSize(14);
+    doc.setTextColor(...BRAND);
+    doc.text(pdfText(value), x + 3, y + 15, { maxWidth: boxWidth - 9 });
+  });
+  y += boxHeight + 8;
+
+  for (const chart of charts) {
+    const height = Math.min(90, contentWidth * (chart.image.height / chart.image.width));
+    const width = height * (chart.image.width / chart.image.height);
+    sectionTitle(chart.title);
+    ensureSpace(height + 8);
+    doc.addImage(chart.image.dataUrl, "PNG", margin + (contentWidth - width) / 2, y, width, height);
+    y += height + 2;
+    if (chart.caption) {
+      doc.setFontSize(9);
+      doc.setTextColor(100);
+      doc.text(pdfText(chart.caption), margin, y + 4);
+      y += 6;
+    }
+    y += 4;
+  }
+
+  const commentList = (title: string, comments: ReportComment[]) => {
+    sectionTitle(title);
+    if (comments.length === 0) {
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text("Nenhum comentário no período.", margin, y + 4);
+      y += 10;
+      return;
+    }
+    for (const comment of comments) {
+      // Measured at the size it's printed in
+      doc.setFontSize(10);
+      const lines: string[] = doc.splitTextToSize(pdfText(comment.comentario), contentWidth - 4);
+      ensureSpace(lines.length * 5 + 9);
+      doc.setFontSize(9);
+      doc.setTextColor(100);
+      doc.text(`${comment.date} · nota ${comment.average.toFixed(1)}`, margin, y + 4);
+      doc.setFontSize(10);
+      doc.setTextColor(40);
+      doc.text(lines, margin + 2, y + 9);
+      y += lines.length * 5 + 8;
+    }
+  };
+
+  commentList("Comentários mais bem avaliados", topComments);
+  commentList("Comentários com notas mais baixas", bottomComments);
+
+  if (improvement) {
+    sectionTitle("Ponto de Melhoria Identificado");
+    doc.setFontSize(10);
+    const lines: string[] = doc.splitTextToSize(pdfText(improvement), contentWidth);
+    ensureSpace(lines.length * 5);
+    doc.setTextColor(40);
+    doc.text(lines, margin, y + 4);
+  }
+
+  return doc.output("blob");
+};
@@ -0,0 +1,29 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+// Everything one form submission writes, kept together so it can be queued and replayed as a unit
+export interface FeedbackSubmission {
+  // Client-generated feedbacks.id, also the dedupe key for retries
+  id: string;
+  feedback: TablesInsert<"feedbacks">;
+  ratings: TablesInsert<"feedback_ratings">[];
+  consent: TablesInsert<"consents">;
+}
+
+// Constraint and permission errors will fail the same way on every retry
+export const isPermanentError = (error: unknown) => {
+  const code = (error as Partial<PostgrestError> | null)?.code;
+  return !!code && /^(22|23|42)/.test(code);
+};
+
+// Written in one transaction by submit_feedback, which skips ids it already has, so replaying a
+// submission that did go through is safe
+export const sendFeedbackSubmission = async (submission: FeedbackSubmission) => {
+  const { error } = await supabase.rpc('submit_feedback', {
+    _feedback: submission.feedback,
+    _ratings: submission.ratings,
+    _consent: submission.consent
+  });
+  if (error) throw error;
+};
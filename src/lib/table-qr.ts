@@ -0,0 +1,49 @@
+import QRCode from "qrcode";
+import { jsPDF } from "jspdf";
+import { areaLabels, tableFeedbackUrl, type DiningTable } from "./dining-tables";
+
+const QR_OPTIONS = { errorCorrectionLevel: "M" as const, margin: 2, color: { dark: "#A72026", light: "#FFFFFF" } };
+
+export const tableQrSvg = (table: DiningTable) =>
+  QRCode.toString(tableFeedbackUrl(table.number), { ...QR_OPTIONS, type: "svg" });
+
+export const tableQrPng = (table: DiningTable, width = 600) =>
+  QRCode.toDataURL(tableFeedbackUrl(table.number), { ...QR_OPTIONS, width });
+
+// A4 sheet, six cards per page (2 x 3), each card to be cut out and placed on its table
+export const buildQrSheetPdf = async (tables: DiningTable[]) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const columns = 2;
+  const rows = 3;
+  const cardWidth = 105;
+  const cardHeight = 99;
+  const qrSize = 60;
+
+  for (const [index, table] of tables.entries()) {
+    const position = index % (columns * rows);
+    if (index > 0 && position === 0) doc.addPage();
+
+    const x = (position % columns) * cardWidth;
+    const y = Math.floor(position / columns) * cardHeight;
+    const centerX = x + cardWidth / 2;
+
+    doc.setDrawColor(200);
+    doc.setLineDashPattern([1, 1], 0);
+    doc.rect(x + 2, y + 2, cardWidth - 4, cardHeight - 4);
+
+    doc.setFontSize(16);
+    doc.setTextColor(167, 32, 38);
+    doc.text(`Mesa ${table.number}`, centerX, y + 14, { align: "center" });
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(areaLabels[table.area], centerX, y + 20, { align: "center" });
+
+    doc.addImage(await tableQrPng(table, 400), "PNG", centerX - qrSize / 2, y + 24, qrSize, qrSize);
+
+    doc.setFontSize(11);
+    doc.setTextColor(40);
+    doc.text("Conta pra gente como foi! Aponte a câmera.", centerX, y + 92, { align: "center" });
+  }
+
+  return doc.output("blob");
+};
@@ -0,0 +1,14 @@
+import type { CSSProperties } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Tag = Tables<"tags">;
+
+// Offered when creating a tag, any "#RRGGBB" is accepted by the database
+export const TAG_COLORS = ["#A72026", "#EA580C", "#CA8A04", "#16A34A", "#0D9488", "#2563EB", "#7C3AED", "#DB2777", "#57534E"];
+
+// White text on dark colors, near-black on light ones
+export const tagBadgeStyle = (color: string): CSSProperties => {
+  const [r, g, b] = [1, 3, 5].map(start => parseInt(color.slice(start, start + 2), 16));
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return { backgroundColor: color, borderColor: color, color: luminance > 0.6 ? "#1C1917" : "#FFFFFF" };
+};
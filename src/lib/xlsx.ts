@@ -0,0 +1,32 @@
+export interface WorkbookSheet {
+  name: string;
+  // Headers taken from the first row, like toCSV
+  rows: Record<string, string | number | null>[];
+}
+
+// exceljs is large, so it's only downloaded when someone actually exports a workbook
+export const buildWorkbook = async (sheets: WorkbookSheet[]) => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Lardo - Bar e Sebo";
+  workbook.created = new Date();
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: "frozen", ySplit: 1 }] });
+    const headers = sheet.rows.length > 0 ? Object.keys(sheet.rows[0]) : [];
+
+    worksheet.columns = headers.map(header => ({
+      header,
+      key: header,
+      // Wide enough for the longest value, capped so comments don't push everything off screen
+      width: Math.min(60, Math.max(header.length, ...sheet.rows.map(row => String(row[header] ?? '').length)) + 2)
+    }));
+    worksheet.addRows(sheet.rows);
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true, color: { argb: "FFFFFFFF" } };
+    headerRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFA72026" } };
+  }
+
+  return workbook.xlsx.writeBuffer();
+};
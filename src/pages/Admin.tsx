@@ -0,0 +1,7 @@
+import { AdminPanel } from "@/components/AdminPanel";
+
+const Admin = () => {
+  return <AdminPanel />;
+};
+
+export default Admin;
@@ -0,0 +1,462 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { criterionLabel } from "@/lib/feedback";
+import {
+  alertEventStatusLabels,
+  alertRuleTypeLabels,
+  parseList,
+  type AlertEvent,
+  type AlertEventStatus,
+  type AlertRule,
+  type AlertRuleType
+} from "@/lib/alerts";
+import { Bell, Plus, RotateCw, Save, Send, Trash2 } from "lucide-react";
+
+type AlertLogEntry = AlertEvent & { feedbacks: { nome: string } | null };
+
+const statusBadgeVariant: Record<AlertEventStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  sending: "secondary",
+  sent: "default",
+  failed: "destructive"
+};
+
+const ALL_CRITERIA = "all";
+
+const Alerts = () => {
+  const { toast } = useToast();
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [recipients, setRecipients] = useState("");
+  const [functionUrl, setFunctionUrl] = useState("");
+
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<AlertRuleType>("average_below");
+  const [newThreshold, setNewThreshold] = useState("3");
+  const [newCriterionId, setNewCriterionId] = useState(ALL_CRITERIA);
+  const [newKeywords, setNewKeywords] = useState("");
+  const [newNotifyWebhook, setNewNotifyWebhook] = useState(true);
+  const [newNotifyEmail, setNewNotifyEmail] = useState(true);
+
+  const fetchRules = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching alert rules:', error);
+    } else {
+      setRules(data || []);
+    }
+  }, []);
+
+  const fetchEvents = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('alert_events')
+      .select('*, feedbacks (nome)')
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error fetching alert events:', error);
+    } else {
+      setEvents((data || []) as AlertLogEntry[]);
+    }
+  }, []);
+
+  const fetchSettings = useCallback(async () => {
+    const { data, error } = await supabase.from('alert_settings').select('*').maybeSingle();
+
+    if (error) {
+      console.error('Error fetching alert settings:', error);
+    } else if (data) {
+      setWebhookUrl(data.webhook_url ?? "");
+      setRecipients(data.email_recipients.join(", "));
+      setFunctionUrl(data.delivery_function_url ?? "");
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([fetchRules(), fetchEvents(), fetchSettings()]).then(() => setLoading(false));
+  }, [fetchRules, fetchEvents, fetchSettings]);
+
+  const showError = (title: string, error: unknown) => {
+    console.error(`Error ${title.toLowerCase()}:`, error);
+    toast({
+      title,
+      description: "Tente novamente em alguns minutos.",
+      variant: "destructive"
+    });
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('alert_settings')
+      .update({
+        webhook_url: webhookUrl.trim() || null,
+        email_recipients: parseList(recipients),
+        delivery_function_url: functionUrl.trim() || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', true);
+    setIsSaving(false);
+
+    if (error) {
+      showError("Erro ao salvar destinos", error);
+      return;
+    }
+    toast({ title: "Destinos atualizados" });
+  };
+
+  const handleCreateRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const keywords = parseList(newKeywords);
+
+    setIsSaving(true);
+    const { error } = await supabase.from('alert_rules').insert({
+      name: newName.trim(),
+      rule_type: newType,
+      threshold: newType === "keyword" ? null : Number(newThreshold),
+      criterion_id: newType === "criterion_at_most" && newCriterionId !== ALL_CRITERIA ? newCriterionId : null,
+      keywords: newType === "keyword" ? keywords : [],
+      notify_webhook: newNotifyWebhook,
+      notify_email: newNotifyEmail
+    });
+    setIsSaving(false);
+
+    if (error) {
+      showError("Erro ao criar regra", error);
+      return;
+    }
+
+    setNewName("");
+    setNewKeywords("");
+    toast({ title: "Regra criada", description: "Ela vale para as próximas avaliações recebidas." });
+    fetchRules();
+  };
+
+  const updateRule = async (id: string, changes: Partial<AlertRule>) => {
+    const { error } = await supabase.from('alert_rules').update(changes).eq('id', id);
+    if (error) {
+      showError("Erro ao atualizar regra", error);
+      return;
+    }
+    fetchRules();
+  };
+
+  const deleteRule = async (id: string) => {
+    const { error } = await supabase.from('alert_rules').delete().eq('id', id);
+    if (error) {
+      showError("Erro ao excluir regra", error);
+      return;
+    }
+    fetchRules();
+  };
+
+  // Back to pending makes the dispatch trigger call the edge function again
+  const requeue = async (id: string) => {
+    const { error } = await supabase
+      .from('alert_events')
+      .update({ status: 'pending', error: null })
+      .eq('id', id);
+
+    if (error) {
+      showError("Erro ao reenviar alerta", error);
+      return;
+    }
+    toast({ title: "Alerta reenviado" });
+    fetchEvents();
+  };
+
+  const describeRule = (rule: AlertRule) => {
+    if (rule.rule_type === "keyword") return rule.keywords.join(", ");
+    if (rule.rule_type === "criterion_at_most") {
+      const criterion = criteria.find(item => item.id === rule.criterion_id);
+      return `${rule.threshold} em ${criterion ? criterionLabel(criterion) : "qualquer critério"}`;
+    }
+    return String(rule.threshold);
+  };
+
+  const channels = (rule: Pick<AlertRule, "notify_webhook" | "notify_email">) =>
+    [rule.notify_webhook && "Webhook", rule.notify_email && "E-mail"].filter(Boolean).join(" + ") || "Só registro";
+
+  const canCreate = newName.trim() && (newType === "keyword" ? parseList(newKeywords).length > 0 : !!newThreshold);
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Carregando alertas...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <Bell className="h-5 w-5" />
+            Regras de Alerta
+          </CardTitle>
+          <CardDescription>
+            Cada avaliação recebida é comparada com as regras ativas. Quando uma regra bate, a equipe é avisada pelos canais marcados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma regra cadastrada.</p>
+          )}
+          {rules.map((rule) => (
+            <div key={rule.id} className={`flex flex-col md:flex-row md:items-center gap-3 border rounded-md p-3 ${rule.active ? "" : "opacity-60"}`}>
+              <div className="flex-1">
+                <div className="font-medium">{rule.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {alertRuleTypeLabels[rule.rule_type]} {describeRule(rule)}
+                </div>
+              </div>
+              <Badge variant="outline">{channels(rule)}</Badge>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`rule-active-${rule.id}`}
+                  checked={rule.active}
+                  onCheckedChange={(checked) => updateRule(rule.id, { active: checked })}
+                />
+                <Label htmlFor={`rule-active-${rule.id}`}>Ativa</Label>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => deleteRule(rule.id)} title="Excluir regra">
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Excluir regra</span>
+              </Button>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreateRule} className="grid gap-4 md:grid-cols-2 border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-rule-name">Nome</Label>
+              <Input
+                id="new-rule-name"
+                placeholder="Ex.: Nota baixa no atendimento"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Condição</Label>
+              <Select value={newType} onValueChange={(value) => setNewType(value as AlertRuleType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(alertRuleTypeLabels) as AlertRuleType[]).map(type => (
+                    <SelectItem key={type} value={type}>{alertRuleTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {newType === "keyword" ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="new-rule-keywords">Palavras-chave</Label>
+                <Input
+                  id="new-rule-keywords"
+                  placeholder="Separadas por vírgula, ex.: demora, frio, sujo"
+                  value={newKeywords}
+                  onChange={(e) => setNewKeywords(e.target.value)}
+                />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="new-rule-threshold">Nota</Label>
+                  <Input
+                    id="new-rule-threshold"
+                    type="number"
+                    min={1}
+                    max={5}
+                    step={newType === "average_below" ? 0.1 : 1}
+                    value={newThreshold}
+                    onChange={(e) => setNewThreshold(e.target.value)}
+                  />
+                </div>
+                {newType === "criterion_at_most" && (
+                  <div className="space-y-2">
+                    <Label>Critério</Label>
+                    <Select value={newCriterionId} onValueChange={setNewCriterionId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_CRITERIA}>Qualquer critério</SelectItem>
+                        {criteria.map(criterion => (
+                          <SelectItem key={criterion.id} value={criterion.id}>{criterionLabel(criterion)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex items-center gap-6 md:col-span-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="new-rule-webhook"
+                  checked={newNotifyWebhook}
+                  onCheckedChange={(checked) => setNewNotifyWebhook(checked === true)}
+                />
+                <Label htmlFor="new-rule-webhook">Webhook</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="new-rule-email"
+                  checked={newNotifyEmail}
+                  onCheckedChange={(checked) => setNewNotifyEmail(checked === true)}
+                />
+                <Label htmlFor="new-rule-email">E-mail</Label>
+              </div>
+              <Button type="submit" disabled={isSaving || !canCreate} className="ml-auto flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Adicionar
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5" />
+            Destinos
+          </CardTitle>
+          <CardDescription>
+            O servidor de e-mail (SMTP) é configurado nos segredos da função deliver-alert.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveSettings} className="grid gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="alert-webhook-url">URL do webhook</Label>
+              <Input
+                id="alert-webhook-url"
+                type="url"
+                placeholder="https://..."
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-recipients">E-mails</Label>
+              <Input
+                id="alert-recipients"
+                placeholder="gerencia@lardo.com.br, chef@lardo.com.br"
+                value={recipients}
+                onChange={(e) => setRecipients(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-function-url">URL da função de envio</Label>
+              <Input
+                id="alert-function-url"
+                type="url"
+                placeholder="https://<projeto>.supabase.co/functions/v1/deliver-alert"
+                value={functionUrl}
+                onChange={(e) => setFunctionUrl(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Sem essa URL os alertas ficam apenas registrados no histórico abaixo.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSaving} className="flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                Salvar
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Histórico de Alertas</CardTitle>
+            <Button variant="outline" size="sm" onClick={fetchEvents} className="flex items-center gap-2">
+              <RotateCw className="h-4 w-4" />
+              Atualizar
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum alerta disparado ainda.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Regra</TableHead>
+                  <TableHead>Cliente</TableHead>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead>Envio</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const status = event.status as AlertEventStatus;
+                  return (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(event.created_at).toLocaleString('pt-BR')}
+                      </TableCell>
+                      <TableCell>{event.rule_name}</TableCell>
+                      <TableCell>{event.feedbacks?.nome ?? "—"}</TableCell>
+                      <TableCell>{event.reason}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusBadgeVariant[status]}>{alertEventStatusLabels[status]}</Badge>
+                        {event.error && (
+                          <p className="text-xs text-destructive mt-1">{event.error}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {status !== "pending" && (
+                          <Button variant="ghost" size="sm" onClick={() => requeue(event.id)}>
+                            Reenviar
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Alerts;
@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { DateRange } from "react-day-picker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DateRangeFilter } from "@/components/DateRangeFilter";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useStaffDirectory } from "@/hooks/use-staff-directory";
+import { auditActionLabel, describeAuditDetails, type AuditLogEntry } from "@/lib/audit";
+import { customerPath } from "@/lib/customers";
+import { resolvePreset, toQueryBounds, type PeriodPreset } from "@/lib/date-range";
+import { toCSV } from "@/lib/csv";
+import { downloadFile, fileDateStamp } from "@/lib/download";
+import { fetchAllRows } from "@/lib/paging";
+import { Download, ScrollText } from "lucide-react";
+
+const PAGE_SIZE = 100;
+const ALL = "all";
+
+const AuditLog = () => {
+  const { toast } = useToast();
+  const staff = useStaffDirectory();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [actorFilter, setActorFilter] = useState(ALL);
+  const [periodPreset, setPeriodPreset] = useState<PeriodPreset>("last30");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(() => resolvePreset("last30"));
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchActions();
+  }, []);
+
+  const fetchActions = async () => {
+    const { data, error } = await supabase.rpc('audit_log_actions');
+    if (error) {
+      console.error('Error fetching audit actions:', error);
+      return;
+    }
+    setActions((data || []).map(row => row.action));
+  };
+
+  const buildQuery = useCallback(() => {
+    const { from, to } = toQueryBounds(dateRange);
+    let query = supabase
+      .from('audit_log')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (actionFilter !== ALL) query = query.eq('action', actionFilter);
+    if (actorFilter !== ALL) query = query.eq('actor_id', actorFilter);
+    if (from && to) query = query.gte('created_at', from).lte('created_at', to);
+    return query;
+  }, [actionFilter, actorFilter, dateRange]);
+
+  // offset 0 starts over, anything else appends the next page
+  const fetchEntries = useCallback(async (offset: number) => {
+    if (offset === 0) setLoading(true);
+    const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Erro ao carregar auditoria",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    } else {
+      setEntries(prev => offset === 0 ? data || [] : [...prev, ...(data || [])]);
+      setHasMore((data || []).length === PAGE_SIZE);
+    }
+    setLoading(false);
+  }, [buildQuery, toast]);
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [fetchEntries]);
+
+  const exportCSV = async () => {
+    let exported: AuditLogEntry[];
+    try {
+      // id breaks ties in the date order so pages don't overlap
+      exported = await fetchAllRows((from, to) => buildQuery().order('id').range(from, to));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Erro ao exportar auditoria",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const rows = exported.map(entry => ({
+      data: entry.created_at,
+      usuario: entry.actor_email ?? '',
+      acao: entry.action,
+      descricao: auditActionLabel(entry.action),
+      avaliacao: entry.feedback_id ?? '',
+      cliente: entry.cpf_hash ?? '',
+      detalhes: JSON.stringify(entry.details),
+      ip: entry.ip_address ?? '',
+      user_agent: entry.user_agent ?? ''
+    }));
+    downloadFile(toCSV(rows), `auditoria_lardo_${fileDateStamp()}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-primary">
+                <ScrollText className="h-5 w-5" />
+                Auditoria
+              </CardTitle>
+              <CardDescription>
+                Quem fez o quê no painel: dados revelados, exportações, acompanhamentos, notas e configurações.
+              </CardDescription>
+            </div>
+            <Button onClick={exportCSV} variant="outline" className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Exportar CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as ações</SelectItem>
+                {actions.map(action => (
+                  <SelectItem key={action} value={action}>{auditActionLabel(action)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os usuários</SelectItem>
+                {staff.map(member => (
+                  <SelectItem key={member.user_id} value={member.user_id}>{member.email}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <DateRangeFilter
+              preset={periodPreset}
+              range={dateRange}
+              onChange={(preset, range) => {
+                setPeriodPreset(preset);
+                setDateRange(range);
+              }}
+            />
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Nenhum registro para esses filtros.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Usuário</TableHead>
+                    <TableHead>Ação</TableHead>
+                    <TableHead>Alvo</TableHead>
+                    <TableHead>Detalhes</TableHead>
+                    <TableHead>Origem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString('pt-BR')}
+                      </TableCell>
+                      <TableCell>{entry.actor_email ?? "Sistema"}</TableCell>
+                      <TableCell>{auditActionLabel(entry.action)}</TableCell>
+                      <TableCell className="text-xs">
+                        {entry.cpf_hash && (
+                          <Link to={customerPath(entry.cpf_hash)} className="text-primary hover:underline block">
+                            Cliente
+                          </Link>
+                        )}
+                        {entry.feedback_id && (
+                          <span className="font-mono text-muted-foreground" title={entry.feedback_id}>
+                            #{entry.feedback_id.slice(0, 8)}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-sm break-words">{describeAuditDetails(entry.details)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground" title={entry.user_agent ?? undefined}>
+                        {entry.ip_address ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {hasMore && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => fetchEntries(entries.length)}>
+                    Carregar mais
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
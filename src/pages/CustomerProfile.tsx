@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { useStaffDirectory } from "@/hooks/use-staff-directory";
+import { criterionLabel, criterionRating, feedbackStatusLabels } from "@/lib/feedback";
+import { areaLabels } from "@/lib/dining-tables";
+import type { CustomerProfileData } from "@/lib/customers";
+import { logAuditEvent } from "@/lib/audit";
+import { MaskedContact } from "@/components/MaskedContact";
+import { ArrowLeft, MessageSquare, MessageSquarePlus, Star } from "lucide-react";
+
+type CustomerNote = Tables<"customer_notes">;
+
+const CustomerProfile = () => {
+  const { cpfHash } = useParams<{ cpfHash: string }>();
+  const { toast } = useToast();
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  const staff = useStaffDirectory();
+  const [profile, setProfile] = useState<CustomerProfileData | null>(null);
+  const [notes, setNotes] = useState<CustomerNote[]>([]);
+  const [newNote, setNewNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfile = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('customer_profile', { _cpf_hash: cpfHash! });
+
+    if (error) {
+      console.error('Error fetching customer profile:', error);
+    } else {
+      setProfile(data as CustomerProfileData | null);
+      if (data) {
+        logAuditEvent("customer_profile.view", {}, { cpfHash: cpfHash! })
+          .catch(auditError => console.error('Error logging profile view:', auditError));
+      }
+    }
+    setLoading(false);
+  }, [cpfHash]);
+
+  const fetchNotes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('customer_notes')
+      .select('*')
+      .eq('cpf_hash', cpfHash!)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching customer notes:', error);
+      return;
+    }
+    setNotes(data || []);
+  }, [cpfHash]);
+
+  useEffect(() => {
+    fetchProfile();
+    fetchNotes();
+  }, [fetchProfile, fetchNotes]);
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newNote.trim()) return;
+
+    setIsSaving(true);
+    // author_id defaults to the signed-in user
+    const { error } = await supabase.from('customer_notes').insert({
+      cpf_hash: cpfHash!,
+      body: newNote.trim()
+    });
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error adding customer note:', error);
+      toast({
+        title: "Erro ao adicionar nota",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setNewNote("");
+    fetchNotes();
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Carregando cliente...</p>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 text-center space-y-4">
+        <p className="text-muted-foreground">Cliente não encontrado ou com dados anonimizados.</p>
+        <Button asChild variant="outline">
+          <Link to="/admin/clientes">Voltar para clientes</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { customer, feedbacks } = profile;
+
+  const trendData = feedbacks.map(feedback => ({
+    date: format(new Date(feedback.created_at), "dd/MM/yy"),
+    average: Number(feedback.average_rating)
+  }));
+
+  // Personal average per criterion, over the visits that rated it
+  const criteriaAverages = criteria
+    .map(criterion => {
+      const values = feedbacks
+        .map(feedback => criterionRating(feedback, criterion.key))
+        .filter((value): value is number => value !== null);
+      return {
+        criterion,
+        average: values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+      };
+    })
+    .filter(item => item.average !== null);
+
+  const staffEmail = (userId: string | null) =>
+    staff.find(member => member.user_id === userId)?.email ?? "Usuário removido";
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Button asChild variant="ghost" className="flex items-center gap-2 w-fit">
+        <Link to="/admin/clientes">
+          <ArrowLeft className="h-4 w-4" />
+          Clientes
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl text-primary">{customer.nome}</CardTitle>
+          {customer.instagram && (
+            <CardDescription>
+              <Badge variant="outline">@{customer.instagram}</Badge>
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-3 text-sm">
+          <MaskedContact
+            feedbackId={customer.latest_feedback_id}
+            cpf={customer.cpf}
+            telefone={customer.telefone}
+            allowContact={customer.marketing_opt_in}
+          />
+          {!customer.marketing_opt_in && <Badge variant="secondary">Não aceitou contato</Badge>}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: "Visitas", value: customer.visits },
+          { label: "Primeira visita", value: new Date(customer.first_visit).toLocaleDateString('pt-BR') },
+          { label: "Última visita", value: new Date(customer.last_visit).toLocaleDateString('pt-BR') },
+          { label: "Média pessoal", value: Number(customer.average_rating).toFixed(1) },
+          { label: "NPS médio", value: profile.nps_average ?? "—" }
+        ].map(({ label, value }) => (
+          <Card key={label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-primary">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Notas ao Longo do Tempo</CardTitle>
+            <CardDescription>Média de cada visita</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={240}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" fontSize={12} />
+                <YAxis domain={[0, 5]} />
+                <Tooltip />
+                <Line type="monotone" dataKey="average" name="Média" stroke="#A72026" strokeWidth={3} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Média por Critério</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {criteriaAverages.map(({ criterion, average }) => (
+              <div key={criterion.id} className="flex justify-between">
+                <span className="text-muted-foreground">{criterionLabel(criterion)}</span>
+                <span className="flex items-center gap-1">
+                  {average!.toFixed(1)}
+                  <Star className="h-3 w-3 fill-primary text-primary" />
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Avaliações</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {[...feedbacks].reverse().map(feedback => (
+              <div key={feedback.id} className="border rounded-md p-4 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{new Date(feedback.created_at).toLocaleDateString('pt-BR')}</span>
+                  {feedback.table_number && (
+                    <Badge variant="secondary">
+                      Mesa {feedback.table_number}{feedback.area ? ` · ${areaLabels[feedback.area]}` : ''}
+                    </Badge>
+                  )}
+                  <Badge variant="outline">{feedbackStatusLabels[feedback.status]}</Badge>
+                  {feedback.nps_score !== null && <Badge variant="outline">NPS {feedback.nps_score}</Badge>}
+                  <span className="ml-auto text-lg font-bold text-primary">{Number(feedback.average_rating).toFixed(1)}</span>
+                </div>
+                {feedback.comentario && (
+                  <div className="flex items-start gap-2 p-3 bg-muted rounded-md text-sm">
+                    <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                    <p>{feedback.comentario}</p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquarePlus className="h-4 w-4" />
+              Notas sobre o Cliente
+            </CardTitle>
+            <CardDescription>Visíveis para toda a equipe</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {notes.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma nota ainda.</p>
+            )}
+            {notes.map(note => (
+              <div key={note.id} className="p-3 bg-muted rounded-md space-y-1">
+                <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+                <p className="text-xs text-muted-foreground">
+                  {staffEmail(note.author_id)} · {new Date(note.created_at).toLocaleString('pt-BR')}
+                </p>
+              </div>
+            ))}
+            <form onSubmit={handleAddNote} className="space-y-2">
+              <Textarea
+                placeholder="Ex.: prefere a varanda, aniversário em março..."
+                value={newNote}
+                onChange={(e) => setNewNote(e.target.value)}
+                rows={3}
+                className="resize-none"
+              />
+              <Button type="submit" variant="outline" disabled={isSaving || !newNote.trim()}>
+                Adicionar nota
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerProfile;
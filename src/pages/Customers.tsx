@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { customerPath, type CustomerSummary } from "@/lib/customers";
+import { Contact, Search, Star } from "lucide-react";
+
+const Customers = () => {
+  const navigate = useNavigate();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [search, setSearch] = useState("");
+  const [onlyRegulars, setOnlyRegulars] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, []);
+
+  const fetchCustomers = async (term?: string) => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('customer_directory', { _search: term?.trim() || undefined });
+
+    if (error) {
+      console.error('Error fetching customers:', error);
+    } else {
+      setCustomers(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchCustomers(search);
+  };
+
+  const visible = onlyRegulars ? customers.filter(customer => customer.visits > 1) : customers;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <Contact className="h-5 w-5" />
+            Clientes
+          </CardTitle>
+          <CardDescription>
+            Todos que já avaliaram, agrupados por CPF. Clique em um cliente para ver o histórico completo.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+              <Input
+                placeholder="Buscar por nome, Instagram ou CPF completo"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <Button type="submit" variant="outline" className="flex items-center gap-2">
+                <Search className="h-4 w-4" />
+                Buscar
+              </Button>
+            </form>
+            <Button
+              variant={onlyRegulars ? "default" : "outline"}
+              onClick={() => setOnlyRegulars(prev => !prev)}
+            >
+              Só recorrentes
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Nenhum cliente encontrado.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cliente</TableHead>
+                  <TableHead>CPF</TableHead>
+                  <TableHead className="text-right">Visitas</TableHead>
+                  <TableHead>Primeira visita</TableHead>
+                  <TableHead>Última visita</TableHead>
+                  <TableHead className="text-right">Média</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((customer) => (
+                  <TableRow
+                    key={customer.cpf_hash}
+                    className="cursor-pointer"
+                    onClick={() => navigate(customerPath(customer.cpf_hash))}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{customer.nome}</div>
+                      {customer.instagram && (
+                        <div className="text-xs text-muted-foreground">@{customer.instagram}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{customer.cpf}</TableCell>
+                    <TableCell className="text-right">
+                      {customer.visits > 1 ? <Badge variant="secondary">{customer.visits}</Badge> : customer.visits}
+                    </TableCell>
+                    <TableCell>{new Date(customer.first_visit).toLocaleDateString('pt-BR')}</TableCell>
+                    <TableCell>{new Date(customer.last_visit).toLocaleDateString('pt-BR')}</TableCell>
+                    <TableCell className="text-right">
+                      <span className="inline-flex items-center gap-1">
+                        {Number(customer.average_rating).toFixed(1)}
+                        <Star className="h-3 w-3 fill-primary text-primary" />
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Customers;
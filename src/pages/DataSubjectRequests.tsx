@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { formatCPF, isValidCPF, normalizeCPF } from "@/lib/cpf";
+import { toCSV } from "@/lib/csv";
+import { downloadFile, fileDateStamp } from "@/lib/download";
+import { Download, FileJson, Hash, ShieldCheck, Trash2 } from "lucide-react";
+
+type DataSubjectRequest = Tables<"data_subject_requests">;
+
+// export_customer_data result, a type alias for the same reason as CustomerProfileData
+type CustomerDataBundle = {
+  cpf: string;
+  generated_at: string;
+  feedbacks: Record<string, Json>[];
+  consents: Record<string, Json>[];
+};
+
+const requestTypeLabels = {
+  export: "Exportação",
+  erase: "Anonimização"
+};
+
+const DataSubjectRequests = () => {
+  const { toast } = useToast();
+  const [cpf, setCpf] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [requests, setRequests] = useState<DataSubjectRequest[]>([]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    const { data, error } = await supabase
+      .from('data_subject_requests')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching data subject requests:', error);
+      return;
+    }
+    setRequests(data || []);
+  };
+
+  const ensureValidCPF = () => {
+    if (isValidCPF(cpf)) return true;
+    toast({
+      title: "CPF inválido",
+      description: "Confira os números do CPF do titular.",
+      variant: "destructive"
+    });
+    return false;
+  };
+
+  const handleExport = async (format: "json" | "csv") => {
+    if (!ensureValidCPF()) return;
+
+    setIsWorking(true);
+    try {
+      const { data, error } = await supabase.rpc('export_customer_data', { _cpf: normalizeCPF(cpf) });
+      if (error) throw error;
+
+      const bundle = data as CustomerDataBundle;
+      const baseName = `titular_${bundle.cpf}_${fileDateStamp()}`;
+
+      if (format === "json") {
+        downloadFile(JSON.stringify(bundle, null, 2), `${baseName}.json`, 'application/json');
+      } else {
+        downloadFile(toCSV(bundle.feedbacks), `${baseName}_avaliacoes.csv`, 'text/csv;charset=utf-8;');
+        downloadFile(toCSV(bundle.consents), `${baseName}_consentimentos.csv`, 'text/csv;charset=utf-8;');
+      }
+
+      toast({
+        title: "Dados exportados",
+        description: `${bundle.feedbacks.length} avaliação(ões) e ${bundle.consents.length} consentimento(s) encontrados.`,
+      });
+      fetchRequests();
+    } catch (error) {
+      console.error('Error exporting customer data:', error);
+      toast({
+        title: "Erro ao exportar dados",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!ensureValidCPF()) return;
+
+    setIsWorking(true);
+    try {
+      const { data, error } = await supabase.rpc('erase_customer_data', { _cpf: normalizeCPF(cpf) });
+      if (error) throw error;
+
+      toast({
+        title: "Dados anonimizados",
+        description: `${data} avaliação(ões) anonimizadas. As notas foram preservadas.`,
+      });
+      setCpf("");
+      fetchRequests();
+    } catch (error) {
+      console.error('Error erasing customer data:', error);
+      toast({
+        title: "Erro ao anonimizar dados",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <ShieldCheck className="h-5 w-5" />
+            Solicitações de Titulares (LGPD)
+          </CardTitle>
+          <CardDescription>
+            Exporte tudo o que temos sobre um cliente ou anonimize seus dados pessoais. As notas continuam nas médias do painel.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="dsr-cpf">CPF do titular</Label>
+            <div className="relative">
+              <Hash className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="dsr-cpf"
+                inputMode="numeric"
+                placeholder="000.000.000-00"
+                maxLength={14}
+                value={cpf}
+                onChange={(e) => setCpf(formatCPF(e.target.value))}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => handleExport("json")} disabled={isWorking} className="flex items-center gap-2">
+              <FileJson className="h-4 w-4" />
+              Exportar JSON
+            </Button>
+            <Button variant="outline" onClick={() => handleExport("csv")} disabled={isWorking} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Exportar CSV
+            </Button>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={isWorking || !cpf} className="flex items-center gap-2">
+                  <Trash2 className="h-4 w-4" />
+                  Anonimizar dados
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Anonimizar dados de {cpf}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Nome, CPF, telefone e Instagram serão apagados de todas as avaliações deste titular. Esta ação não pode ser desfeita.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleErase}>Anonimizar</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Histórico de Solicitações</CardTitle>
+          <CardDescription>O CPF é registrado apenas como hash</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Titular (hash)</TableHead>
+                <TableHead className="text-right">Registros</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell>{new Date(request.created_at).toLocaleString('pt-BR')}</TableCell>
+                  <TableCell>
+                    <Badge variant={request.request_type === "erase" ? "destructive" : "secondary"}>
+                      {requestTypeLabels[request.request_type as keyof typeof requestTypeLabels] ?? request.request_type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{request.cpf_hash.slice(0, 12)}…</TableCell>
+                  <TableCell className="text-right">{request.affected_rows}</TableCell>
+                </TableRow>
+              ))}
+              {requests.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    Nenhuma solicitação registrada.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DataSubjectRequests;
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useDiningTables } from "@/hooks/use-dining-tables";
+import { downloadFile } from "@/lib/download";
+import { areaLabels, tableFeedbackUrl, type DiningArea, type DiningTable } from "@/lib/dining-tables";
+import { buildQrSheetPdf, tableQrPng, tableQrSvg } from "@/lib/table-qr";
+import { FileImage, FileText, Plus, QrCode, Trash2 } from "lucide-react";
+
+const DiningTables = () => {
+  const { toast } = useToast();
+  const { tables, loading, refetch } = useDiningTables();
+  const [previews, setPreviews] = useState<Record<number, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [newNumber, setNewNumber] = useState("");
+  const [newArea, setNewArea] = useState<DiningArea>("salao");
+  const [newSeats, setNewSeats] = useState("");
+  const [sheetArea, setSheetArea] = useState<DiningArea | "all">("all");
+
+  useEffect(() => {
+    Promise.all(tables.map(async table => [table.number, await tableQrPng(table, 200)] as const))
+      .then(entries => setPreviews(Object.fromEntries(entries)))
+      .catch(error => console.error('Error generating QR previews:', error));
+  }, [tables]);
+
+  const runMutation = async (mutation: PromiseLike<{ error: unknown }>, errorTitle: string) => {
+    setIsSaving(true);
+    const { error } = await mutation;
+    setIsSaving(false);
+
+    if (error) {
+      console.error(`${errorTitle}:`, error);
+      toast({
+        title: errorTitle,
+        description: (error as { code?: string }).code === '23505'
+          ? "Já existe uma mesa com esse número."
+          : "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    await refetch();
+    return true;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const number = Number(newNumber);
+    if (!Number.isInteger(number) || number <= 0) return;
+
+    const created = await runMutation(
+      supabase.from('dining_tables').insert({
+        number,
+        area: newArea,
+        seats: newSeats ? Number(newSeats) : null
+      }),
+      "Erro ao criar mesa"
+    );
+
+    if (created) {
+      setNewNumber("");
+      setNewSeats("");
+      toast({ title: "Mesa criada", description: `Mesa ${number} pronta para imprimir o QR code.` });
+    }
+  };
+
+  const downloadPng = async (table: DiningTable) => {
+    const dataUrl = await tableQrPng(table);
+    const blob = await (await fetch(dataUrl)).blob();
+    downloadFile(blob, `qr_mesa_${table.number}.png`, 'image/png');
+  };
+
+  const downloadSvg = async (table: DiningTable) => {
+    downloadFile(await tableQrSvg(table), `qr_mesa_${table.number}.svg`, 'image/svg+xml');
+  };
+
+  const downloadSheet = async () => {
+    const sheetTables = tables.filter(table => table.active && (sheetArea === "all" || table.area === sheetArea));
+    if (sheetTables.length === 0) return;
+
+    try {
+      const pdf = await buildQrSheetPdf(sheetTables);
+      const suffix = sheetArea === "all" ? "todas" : sheetArea;
+      downloadFile(pdf, `qr_mesas_${suffix}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error('Error generating QR sheet:', error);
+      toast({
+        title: "Erro ao gerar PDF",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Carregando mesas...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-primary">
+                <QrCode className="h-5 w-5" />
+                Mesas e QR Codes
+              </CardTitle>
+              <CardDescription>
+                Cada QR code abre o formulário já com o número da mesa. Mesas desativadas ficam fora da folha de impressão.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={sheetArea} onValueChange={(value: DiningArea | "all") => setSheetArea(value)}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as áreas</SelectItem>
+                  {(Object.keys(areaLabels) as DiningArea[]).map(area => (
+                    <SelectItem key={area} value={area}>{areaLabels[area]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={downloadSheet} disabled={!tables.some(table => table.active)} className="flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Folha PDF
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {tables.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nenhuma mesa cadastrada.</p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {tables.map(table => (
+                <Card key={table.number} className={table.active ? "" : "opacity-60"}>
+                  <CardContent className="pt-6 space-y-4">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <div className="text-xl font-bold text-primary">Mesa {table.number}</div>
+                        <a href={tableFeedbackUrl(table.number)} target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground hover:underline">
+                          /avaliar?mesa={table.number}
+                        </a>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={isSaving}
+                        onClick={() => runMutation(supabase.from('dining_tables').delete().eq('number', table.number), "Erro ao remover mesa")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remover mesa</span>
+                      </Button>
+                    </div>
+
+                    {previews[table.number] && (
+                      <img src={previews[table.number]} alt={`QR code da mesa ${table.number}`} className="mx-auto h-40 w-40" />
+                    )}
+
+                    <div className="flex items-center justify-between gap-2">
+                      <Select
+                        value={table.area}
+                        disabled={isSaving}
+                        onValueChange={(value: DiningArea) => runMutation(supabase.from('dining_tables').update({ area: value }).eq('number', table.number), "Erro ao salvar mesa")}
+                      >
+                        <SelectTrigger className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(areaLabels) as DiningArea[]).map(area => (
+                            <SelectItem key={area} value={area}>{areaLabels[area]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`active-${table.number}`}
+                          checked={table.active}
+                          disabled={isSaving}
+                          onCheckedChange={(checked) => runMutation(supabase.from('dining_tables').update({ active: checked }).eq('number', table.number), "Erro ao salvar mesa")}
+                        />
+                        <Label htmlFor={`active-${table.number}`}>Ativa</Label>
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" className="flex-1 flex items-center gap-2" onClick={() => downloadPng(table)}>
+                        <FileImage className="h-4 w-4" />
+                        PNG
+                      </Button>
+                      <Button variant="outline" size="sm" className="flex-1 flex items-center gap-2" onClick={() => downloadSvg(table)}>
+                        <FileImage className="h-4 w-4" />
+                        SVG
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Nova Mesa</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_1fr_1fr_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="new-table-number">Número</Label>
+              <Input
+                id="new-table-number"
+                type="number"
+                min={1}
+                placeholder="Ex.: 12"
+                value={newNumber}
+                onChange={(e) => setNewNumber(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Área</Label>
+              <Select value={newArea} onValueChange={(value: DiningArea) => setNewArea(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(areaLabels) as DiningArea[]).map(area => (
+                    <SelectItem key={area} value={area}>{areaLabels[area]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-table-seats">Lugares</Label>
+              <Input
+                id="new-table-seats"
+                type="number"
+                min={1}
+                placeholder="Opcional"
+                value={newSeats}
+                onChange={(e) => setNewSeats(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving || !newNumber} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Adicionar
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DiningTables;
@@ -0,0 +1,450 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import { parseCSV } from "@/lib/csv";
+import {
+  autoMapColumns,
+  importFields,
+  importRowStatusLabels,
+  IMPORT_BATCH_SIZE,
+  isReadyRow,
+  validateImportRow,
+  visitKey,
+  type ImportMapping,
+  type ImportRow
+} from "@/lib/feedback-import";
+import { FileUp, Undo2, Upload } from "lucide-react";
+
+type FeedbackImport = Tables<"feedback_imports">;
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const IGNORE = "ignore";
+// Preview table size, the counts above it cover the whole file
+const PREVIEW_ROWS = 100;
+
+const ImportFeedbacks = () => {
+  const { toast } = useToast();
+  const { criteria } = useRatingCriteria({ includeInactive: true });
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [checked, setChecked] = useState<ImportRow[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [imports, setImports] = useState<FeedbackImport[]>([]);
+
+  const fields = useMemo(() => importFields(criteria), [criteria]);
+  const missingFields = fields.filter(field => field.required && mapping[field.key] === undefined);
+  const mappedCriteria = criteria.some(criterion => mapping[`criterion:${criterion.key}`] !== undefined);
+
+  useEffect(() => {
+    fetchImports();
+  }, []);
+
+  const fetchImports = async () => {
+    const { data, error } = await supabase
+      .from('feedback_imports')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching feedback imports:', error);
+      return;
+    }
+    setImports(data || []);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    setChecked(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const [headers = [], ...rows] = parseCSV(await selected.text());
+    if (headers.length === 0 || rows.length === 0) {
+      toast({
+        title: "Arquivo vazio",
+        description: "O CSV precisa de uma linha de cabeçalho e ao menos uma avaliação.",
+        variant: "destructive"
+      });
+      setFile(null);
+      return;
+    }
+
+    setFile({ name: selected.name, headers, rows });
+    setMapping(autoMapColumns(headers, fields));
+  };
+
+  const updateMapping = (key: string, value: string) => {
+    setChecked(null);
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === IGNORE) {
+        delete next[key];
+      } else {
+        next[key] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  // Validates every line, then flags repeats within the file and visits already in the base
+  const checkRows = async () => {
+    if (!file) return;
+    setIsChecking(true);
+
+    const rows = file.rows.map((cells, index) => validateImportRow(cells, index + 2, mapping, criteria));
+
+    const seen = new Set<string>();
+    for (const row of rows) {
+      if (!row.feedback) continue;
+      const key = visitKey(row.feedback);
+      if (seen.has(key)) {
+        row.status = "duplicate";
+        row.errors = ["Mesmo CPF e dia de outra linha do arquivo"];
+      }
+      seen.add(key);
+    }
+
+    const ready = rows.filter(isReadyRow);
+    for (let start = 0; start < ready.length; start += IMPORT_BATCH_SIZE) {
+      const batch = ready.slice(start, start + IMPORT_BATCH_SIZE);
+      const { data, error } = await supabase.rpc('feedback_import_duplicates', {
+        _rows: batch.map(row => ({ cpf: row.feedback.cpf, created_at: row.feedback.created_at }))
+      });
+
+      if (error) {
+        console.error('Error checking import duplicates:', error);
+        toast({
+          title: "Erro ao verificar duplicadas",
+          description: "Tente novamente em alguns minutos.",
+          variant: "destructive"
+        });
+        setIsChecking(false);
+        return;
+      }
+      for (const index of data || []) {
+        batch[index].status = "duplicate";
+        batch[index].errors = ["Já existe avaliação deste CPF neste dia"];
+      }
+    }
+
+    setChecked(rows);
+    setIsChecking(false);
+  };
+
+  const counts = useMemo(() => {
+    const result = { ready: 0, error: 0, duplicate: 0 };
+    checked?.forEach(row => result[row.status]++);
+    return result;
+  }, [checked]);
+
+  const runImport = async () => {
+    if (!file || !checked) return;
+    const ready = checked.filter(isReadyRow).map(row => row.feedback);
+
+    const { data: created, error: createError } = await supabase
+      .from('feedback_imports')
+      .insert({ file_name: file.name })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error('Error starting feedback import:', createError);
+      toast({
+        title: "Erro ao importar",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    setProgress(0);
+    for (let start = 0; start < ready.length; start += IMPORT_BATCH_SIZE) {
+      const { data, error } = await supabase.rpc('import_feedbacks', {
+        _import_id: created.id,
+        _rows: ready.slice(start, start + IMPORT_BATCH_SIZE)
+      });
+
+      if (error) {
+        console.error('Error importing feedbacks:', error);
+        toast({
+          title: "Importação interrompida",
+          description: `${imported} avaliações entraram antes do erro. Elas podem ser desfeitas no histórico abaixo.`,
+          variant: "destructive"
+        });
+        setProgress(null);
+        fetchImports();
+        return;
+      }
+      imported += data?.[0]?.imported ?? 0;
+      skipped += data?.[0]?.skipped ?? 0;
+      setProgress(Math.round((Math.min(start + IMPORT_BATCH_SIZE, ready.length) / ready.length) * 100));
+    }
+
+    toast({
+      title: "Importação concluída",
+      description: skipped > 0
+        ? `${imported} avaliações importadas, ${skipped} já existiam e foram puladas.`
+        : `${imported} avaliações importadas.`
+    });
+    setProgress(null);
+    setFile(null);
+    setChecked(null);
+    fetchImports();
+  };
+
+  const handleRollback = async (feedbackImport: FeedbackImport) => {
+    const { data, error } = await supabase.rpc('rollback_feedback_import', { _import_id: feedbackImport.id });
+
+    if (error) {
+      console.error('Error rolling back feedback import:', error);
+      toast({
+        title: "Erro ao desfazer importação",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Importação desfeita",
+      description: `${data} avaliações de ${feedbackImport.file_name} foram removidas.`
+    });
+    fetchImports();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <FileUp className="h-5 w-5" />
+            Importar Avaliações
+          </CardTitle>
+          <CardDescription>
+            Traga avaliações antigas de planilhas ou do Google Forms. Cada importação pode ser desfeita inteira pelo histórico.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Arquivo CSV</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              disabled={progress !== null}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                {file.rows.length} linhas e {file.headers.length} colunas em {file.name}
+              </p>
+            )}
+          </div>
+
+          {file && (
+            <div className="space-y-3">
+              <Label className="font-medium">Colunas</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {fields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`import-field-${field.key}`} className="text-sm font-normal">
+                      {field.label}{field.required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] === undefined ? IGNORE : String(mapping[field.key])}
+                      onValueChange={(value) => updateMapping(field.key, value)}
+                    >
+                      <SelectTrigger id={`import-field-${field.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Não importar</SelectItem>
+                        {file.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Coluna ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missingFields.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Escolha a coluna de: {missingFields.map(field => field.label).join(", ")}
+                </p>
+              )}
+              {!mappedCriteria && (
+                <p className="text-sm text-destructive">Escolha a coluna de pelo menos um critério.</p>
+              )}
+              <Button
+                variant="outline"
+                onClick={checkRows}
+                disabled={isChecking || missingFields.length > 0 || !mappedCriteria || progress !== null}
+              >
+                {isChecking ? "Verificando..." : "Verificar linhas"}
+              </Button>
+            </div>
+          )}
+
+          {checked && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{counts.ready} prontas</Badge>
+                <Badge variant="destructive">{counts.error} com erro</Badge>
+                <Badge variant="outline">{counts.duplicate} duplicadas</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Só as linhas prontas são importadas. Linhas com erro ou duplicadas ficam de fora; corrija o arquivo e importe de novo se precisar delas.
+              </p>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Linha</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Notas</TableHead>
+                    <TableHead>Problemas</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {checked.slice(0, PREVIEW_ROWS).map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.status === "ready" ? "secondary" : row.status === "error" ? "destructive" : "outline"}>
+                          {importRowStatusLabels[row.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {row.feedback ? new Date(row.feedback.created_at).toLocaleString('pt-BR') : "—"}
+                      </TableCell>
+                      <TableCell>{row.feedback?.nome ?? "—"}</TableCell>
+                      <TableCell>{row.feedback ? Object.values(row.feedback.ratings).join(" · ") : "—"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-sm break-words">
+                        {row.errors.join("; ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {checked.length > PREVIEW_ROWS && (
+                <p className="text-sm text-muted-foreground text-center">
+                  Mostrando as primeiras {PREVIEW_ROWS} de {checked.length} linhas.
+                </p>
+              )}
+
+              {progress !== null && <Progress value={Math.min(progress, 100)} />}
+              <Button
+                onClick={runImport}
+                disabled={counts.ready === 0 || progress !== null}
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Importar {counts.ready} avaliações
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Histórico de Importações</CardTitle>
+          <CardDescription>Desfazer remove todas as avaliações que vieram daquele arquivo</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Arquivo</TableHead>
+                <TableHead className="text-right">Importadas</TableHead>
+                <TableHead className="text-right">Puladas</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {imports.map(feedbackImport => (
+                <TableRow key={feedbackImport.id}>
+                  <TableCell>{new Date(feedbackImport.created_at).toLocaleString('pt-BR')}</TableCell>
+                  <TableCell>{feedbackImport.file_name}</TableCell>
+                  <TableCell className="text-right">{feedbackImport.imported_count}</TableCell>
+                  <TableCell className="text-right">{feedbackImport.skipped_count}</TableCell>
+                  <TableCell className="text-right">
+                    {feedbackImport.rolled_back_at ? (
+                      <Badge variant="outline">
+                        Desfeita em {new Date(feedbackImport.rolled_back_at).toLocaleDateString('pt-BR')}
+                      </Badge>
+                    ) : (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="flex items-center gap-2 ml-auto">
+                            <Undo2 className="h-4 w-4" />
+                            Desfazer
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Desfazer importação de {feedbackImport.file_name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              As {feedbackImport.imported_count} avaliações importadas, com notas, acompanhamentos e anotações, serão excluídas. Esta ação não pode ser desfeita.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRollback(feedbackImport)}>Desfazer</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {imports.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Nenhuma importação registrada.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ImportFeedbacks;
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CustomerForm } from "@/components/CustomerForm";
+import { PendingUploadsIndicator } from "@/components/PendingUploadsIndicator";
+import { BrandLogo } from "@/components/BrandLogo";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { supabase } from "@/integrations/supabase/client";
+import { useIdleTimeout } from "@/hooks/use-idle-timeout";
+import { Heart, Lock } from "lucide-react";
+
+// Half-filled forms are wiped after this long without a touch
+const IDLE_TIMEOUT_MS = 90_000;
+const THANK_YOU_MS = 8_000;
+
+const pinMessages: Record<string, string> = {
+  invalid: "PIN incorreto.",
+  locked: "Muitas tentativas. Aguarde alguns minutos.",
+  not_configured: "Nenhum PIN definido. Configure em Painel › Quiosque."
+};
+
+const Kiosk = () => {
+  const navigate = useNavigate();
+  // Remounting the form is the simplest way to clear everything it holds
+  const [formKey, setFormKey] = useState(0);
+  const [showThanks, setShowThanks] = useState(false);
+  const [isExitOpen, setIsExitOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const resetForm = () => {
+    setFormKey(prev => prev + 1);
+    setIsExitOpen(false);
+    window.scrollTo({ top: 0 });
+  };
+
+  useIdleTimeout(IDLE_TIMEOUT_MS, resetForm, !showThanks);
+
+  useEffect(() => {
+    if (!showThanks) return;
+    const timeout = setTimeout(() => setShowThanks(false), THANK_YOU_MS);
+    return () => clearTimeout(timeout);
+  }, [showThanks]);
+
+  useEffect(() => {
+    // Browsers only allow fullscreen from a user gesture, so ask on the first touch
+    const enterFullscreen = () => {
+      if (!document.fullscreenElement) {
+        document.documentElement.requestFullscreen?.().catch(() => undefined);
+      }
+    };
+    window.addEventListener('pointerdown', enterFullscreen, { once: true });
+    return () => window.removeEventListener('pointerdown', enterFullscreen);
+  }, []);
+
+  const handleSubmitted = () => {
+    resetForm();
+    setShowThanks(true);
+  };
+
+  const verifyPin = async (value: string) => {
+    setIsVerifying(true);
+    const { data, error } = await supabase.rpc('verify_kiosk_pin', { _pin: value });
+    setIsVerifying(false);
+    setPin("");
+
+    if (error) {
+      console.error('Error verifying kiosk PIN:', error);
+      setPinError("Não foi possível verificar o PIN. Tente novamente.");
+      return;
+    }
+
+    if (data !== 'ok') {
+      setPinError(pinMessages[data] ?? pinMessages.invalid);
+      return;
+    }
+
+    if (document.fullscreenElement) {
+      await document.exitFullscreen().catch(() => undefined);
+    }
+    navigate('/admin');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <header className="flex justify-center pt-4">
+        <BrandLogo />
+      </header>
+
+      <main className="pb-8">
+        <CustomerForm key={formKey} onSubmitted={handleSubmitted} />
+      </main>
+
+      <PendingUploadsIndicator />
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="fixed bottom-2 right-2 opacity-20 hover:opacity-60"
+        onClick={() => {
+          setPinError(null);
+          setPin("");
+          setIsExitOpen(true);
+        }}
+      >
+        <Lock className="h-4 w-4" />
+        <span className="sr-only">Sair do modo quiosque</span>
+      </Button>
+
+      <Dialog open={isExitOpen} onOpenChange={setIsExitOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Sair do modo quiosque</DialogTitle>
+            <DialogDescription>Digite o PIN de administrador.</DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col items-center gap-3 py-2">
+            <InputOTP
+              maxLength={6}
+              value={pin}
+              onChange={setPin}
+              onComplete={verifyPin}
+              disabled={isVerifying}
+              inputMode="numeric"
+              pattern="^\d+$"
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} className="[-webkit-text-security:disc]" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            {pinError && <p className="text-sm text-destructive">{pinError}</p>}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {showThanks && (
+        <button
+          type="button"
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-gradient-primary text-primary-foreground p-8 text-center"
+          onClick={() => setShowThanks(false)}
+        >
+          <Heart className="h-20 w-20 fill-current" />
+          <h1 className="text-5xl font-bold">Obrigado!</h1>
+          <p className="text-xl max-w-md">
+            Sua avaliação foi enviada. Sua opinião é muito importante para nós.
+          </p>
+          <p className="text-sm opacity-80">Toque para fazer uma nova avaliação</p>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default Kiosk;
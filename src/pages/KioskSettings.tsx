@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ExternalLink, KeyRound, Tablet } from "lucide-react";
+
+const PinInput = ({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) => (
+  <InputOTP id={id} maxLength={6} value={value} onChange={onChange} inputMode="numeric" pattern="^\d+$">
+    <InputOTPGroup>
+      {Array.from({ length: 6 }, (_, index) => (
+        <InputOTPSlot key={index} index={index} className="[-webkit-text-security:disc]" />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const KioskSettings = () => {
+  const { toast } = useToast();
+  const [pinUpdatedAt, setPinUpdatedAt] = useState<string | null>(null);
+  const [pin, setPin] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPinStatus();
+  }, []);
+
+  const fetchPinStatus = async () => {
+    const { data, error } = await supabase.rpc('kiosk_pin_updated_at');
+    if (error) {
+      console.error('Error fetching kiosk PIN status:', error);
+      return;
+    }
+    setPinUpdatedAt(data);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (pin !== confirmation) {
+      toast({
+        title: "Os PINs não conferem",
+        description: "Digite o mesmo PIN nos dois campos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase.rpc('set_kiosk_pin', { _pin: pin });
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error saving kiosk PIN:', error);
+      toast({
+        title: "Erro ao salvar PIN",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPin("");
+    setConfirmation("");
+    toast({ title: "PIN atualizado", description: "Use o novo PIN para sair do modo quiosque." });
+    fetchPinStatus();
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <Tablet className="h-5 w-5" />
+            Modo Quiosque
+          </CardTitle>
+          <CardDescription>
+            Abra o quiosque no tablet do balcão. Ele mostra apenas o formulário, limpa avaliações abandonadas após 90 segundos e só sai com o PIN.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild className="flex items-center gap-2 w-fit">
+            <Link to="/kiosk">
+              <ExternalLink className="h-4 w-4" />
+              Abrir quiosque neste dispositivo
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            PIN de Saída
+          </CardTitle>
+          <CardDescription>
+            {pinUpdatedAt
+              ? `Último PIN definido em ${new Date(pinUpdatedAt).toLocaleString('pt-BR')}.`
+              : "Nenhum PIN definido ainda. Sem ele não é possível sair do quiosque."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-pin">Novo PIN (6 dígitos)</Label>
+              <PinInput id="kiosk-pin" value={pin} onChange={setPin} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-pin-confirmation">Confirme o PIN</Label>
+              <PinInput id="kiosk-pin-confirmation" value={confirmation} onChange={setConfirmation} />
+            </div>
+            <Button type="submit" disabled={isSaving || pin.length < 6 || confirmation.length < 6}>
+              Salvar PIN
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default KioskSettings;
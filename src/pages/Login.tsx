@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Lock } from "lucide-react";
+
+const Login = () => {
+  const { session, signIn } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const redirectTo = (location.state as { from?: Location } | null)?.from?.pathname || "/admin";
+
+  if (session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const { error } = await signIn(email, password);
+
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Não foi possível entrar",
+        description: "Verifique seu e-mail e senha.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    navigate(redirectTo, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <Lock className="h-5 w-5" />
+            Painel Admin
+          </CardTitle>
+          <CardDescription>Entre com sua conta da equipe Lardo</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">E-mail</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Senha</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? "Entrando..." : "Entrar"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
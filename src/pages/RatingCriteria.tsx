@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useRatingCriteria } from "@/hooks/use-rating-criteria";
+import type { RatingCriterion } from "@/lib/feedback";
+import { ArrowDown, ArrowUp, ListChecks, Plus, Save } from "lucide-react";
+
+// "Música ao Vivo" -> "musica_ao_vivo"
+const toCriterionKey = (label: string) =>
+  label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+const RatingCriteria = () => {
+  const { toast } = useToast();
+  const { criteria, loading, refetch } = useRatingCriteria({ includeInactive: true });
+  const [drafts, setDrafts] = useState<Record<string, Pick<RatingCriterion, "label" | "description">>>({});
+  const [newLabel, setNewLabel] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateCriterion = async (id: string, changes: Partial<RatingCriterion>) => {
+    setIsSaving(true);
+    const { error } = await supabase.from('rating_criteria').update(changes).eq('id', id);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error updating rating criterion:', error);
+      toast({
+        title: "Erro ao salvar critério",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    await refetch();
+    return true;
+  };
+
+  const saveDraft = async (criterion: RatingCriterion) => {
+    const draft = drafts[criterion.id];
+    if (!draft || !draft.label.trim()) return;
+
+    const saved = await updateCriterion(criterion.id, {
+      label: draft.label.trim(),
+      description: draft.description?.trim() || null
+    });
+
+    if (saved) {
+      setDrafts(prev => {
+        const { [criterion.id]: _, ...rest } = prev;
+        return rest;
+      });
+      toast({ title: "Critério atualizado" });
+    }
+  };
+
+  // Swaps sort_order with the neighbour in the given direction
+  const move = async (index: number, direction: -1 | 1) => {
+    const current = criteria[index];
+    const neighbour = criteria[index + direction];
+    if (!current || !neighbour) return;
+
+    setIsSaving(true);
+    const results = await Promise.all([
+      supabase.from('rating_criteria').update({ sort_order: neighbour.sort_order }).eq('id', current.id),
+      supabase.from('rating_criteria').update({ sort_order: current.sort_order }).eq('id', neighbour.id)
+    ]);
+    setIsSaving(false);
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      console.error('Error reordering rating criteria:', failed.error);
+      toast({
+        title: "Erro ao reordenar critérios",
+        description: "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+    }
+    await refetch();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = newLabel.trim();
+    const key = toCriterionKey(label);
+    if (!key) return;
+
+    setIsSaving(true);
+    const { error } = await supabase.from('rating_criteria').insert({
+      key,
+      label,
+      description: newDescription.trim() || null,
+      sort_order: Math.max(0, ...criteria.map(criterion => criterion.sort_order)) + 1
+    });
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error creating rating criterion:', error);
+      toast({
+        title: "Erro ao criar critério",
+        description: error.code === '23505'
+          ? "Já existe um critério com esse nome."
+          : "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setNewLabel("");
+    setNewDescription("");
+    toast({ title: "Critério criado", description: `"${label}" já aparece no formulário de avaliação.` });
+    refetch();
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Carregando critérios...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <ListChecks className="h-5 w-5" />
+            Critérios de Avaliação
+          </CardTitle>
+          <CardDescription>
+            Defina o que o cliente avalia. Critérios desativados saem do formulário, mas suas notas antigas continuam no painel.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {criteria.map((criterion, index) => {
+            const draft = drafts[criterion.id] ?? { label: criterion.label, description: criterion.description };
+            const isDirty = !!drafts[criterion.id];
+
+            return (
+              <Card key={criterion.id} className={criterion.active ? "" : "opacity-60"}>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex flex-col md:flex-row gap-4">
+                    <div className="flex md:flex-col gap-1">
+                      <Button variant="ghost" size="icon" disabled={isSaving || index === 0} onClick={() => move(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                        <span className="sr-only">Mover para cima</span>
+                      </Button>
+                      <Button variant="ghost" size="icon" disabled={isSaving || index === criteria.length - 1} onClick={() => move(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                        <span className="sr-only">Mover para baixo</span>
+                      </Button>
+                    </div>
+
+                    <div className="flex-1 grid gap-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={draft.label}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [criterion.id]: { ...draft, label: e.target.value } }))}
+                          aria-label="Nome do critério"
+                        />
+                        <Badge variant="outline" className="font-mono">{criterion.key}</Badge>
+                      </div>
+                      <Input
+                        placeholder="Descrição exibida ao cliente (opcional)"
+                        value={draft.description ?? ""}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [criterion.id]: { ...draft, description: e.target.value } }))}
+                        aria-label="Descrição do critério"
+                      />
+                    </div>
+
+                    <div className="flex md:flex-col gap-4 md:w-40">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`required-${criterion.id}`}
+                          checked={criterion.required}
+                          disabled={isSaving}
+                          onCheckedChange={(checked) => updateCriterion(criterion.id, { required: checked })}
+                        />
+                        <Label htmlFor={`required-${criterion.id}`}>Obrigatório</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`active-${criterion.id}`}
+                          checked={criterion.active}
+                          disabled={isSaving}
+                          onCheckedChange={(checked) => updateCriterion(criterion.id, { active: checked })}
+                        />
+                        <Label htmlFor={`active-${criterion.id}`}>Ativo</Label>
+                      </div>
+                    </div>
+                  </div>
+
+                  {isDirty && (
+                    <div className="flex justify-end">
+                      <Button size="sm" onClick={() => saveDraft(criterion)} disabled={isSaving} className="flex items-center gap-2">
+                        <Save className="h-4 w-4" />
+                        Salvar
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Novo Critério</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="new-criterion-label">Nome</Label>
+              <Input
+                id="new-criterion-label"
+                placeholder="Ex.: Música ao Vivo"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-criterion-description">Descrição</Label>
+              <Input
+                id="new-criterion-description"
+                placeholder="Opcional"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving || !toCriterionKey(newLabel)} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Adicionar
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RatingCriteria;
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+import { TAG_COLORS, tagBadgeStyle, type Tag } from "@/lib/tags";
+import { Plus, Tags as TagsIcon, Trash2 } from "lucide-react";
+
+interface ColorPickerProps {
+  value: string;
+  disabled?: boolean;
+  onChange: (color: string) => void;
+}
+
+const ColorPicker = ({ value, disabled, onChange }: ColorPickerProps) => (
+  <div className="flex flex-wrap gap-1">
+    {TAG_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        disabled={disabled}
+        onClick={() => onChange(color)}
+        className={`h-6 w-6 rounded-full border-2 ${value.toUpperCase() === color ? "border-foreground" : "border-transparent"}`}
+        style={{ backgroundColor: color }}
+        title={color}
+      >
+        <span className="sr-only">Cor {color}</span>
+      </button>
+    ))}
+  </div>
+);
+
+const Tags = () => {
+  const { toast } = useToast();
+  const { tags, loading, refetch } = useTags();
+  // Feedbacks per tag, over all time
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(TAG_COLORS[0]);
+
+  const fetchUsage = useCallback(async () => {
+    const { data, error } = await supabase.rpc('feedback_by_tag', {});
+    if (error) {
+      console.error('Error fetching tag usage:', error);
+      return;
+    }
+    setUsage(Object.fromEntries((data || []).map(row => [row.tag_id, Number(row.volume)])));
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage, tags]);
+
+  const runMutation = async (mutation: PromiseLike<{ error: unknown }>, errorTitle: string) => {
+    setIsSaving(true);
+    const { error } = await mutation;
+    setIsSaving(false);
+
+    if (error) {
+      console.error(`${errorTitle}:`, error);
+      toast({
+        title: errorTitle,
+        description: (error as { code?: string }).code === '23505'
+          ? "Já existe uma etiqueta com esse nome."
+          : "Tente novamente em alguns minutos.",
+        variant: "destructive"
+      });
+      await refetch();
+      return false;
+    }
+
+    await refetch();
+    return true;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    const created = await runMutation(
+      supabase.from('tags').insert({ name, color: newColor }),
+      "Erro ao criar etiqueta"
+    );
+
+    if (created) {
+      setNewName("");
+      toast({ title: "Etiqueta criada", description: `"${name}" já pode ser usada nas avaliações.` });
+    }
+  };
+
+  const handleRename = (tag: Tag, value: string) => {
+    const name = value.trim();
+    if (!name || name === tag.name) return;
+    runMutation(supabase.from('tags').update({ name }).eq('id', tag.id), "Erro ao renomear etiqueta");
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Carregando etiquetas...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-primary">
+            <TagsIcon className="h-5 w-5" />
+            Etiquetas
+          </CardTitle>
+          <CardDescription>
+            Categorias que a equipe aplica às avaliações pelo painel, uma a uma ou em lote. Renomear ou mudar a cor vale para todas as avaliações já etiquetadas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tags.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">Nenhuma etiqueta cadastrada.</p>
+          )}
+          {tags.map(tag => (
+            <div key={tag.id} className="flex flex-col md:flex-row md:items-center gap-3 border-b pb-4 last:border-b-0 last:pb-0">
+              <Badge style={tagBadgeStyle(tag.color)} className="w-fit">{tag.name}</Badge>
+              <Input
+                key={tag.name}
+                defaultValue={tag.name}
+                maxLength={40}
+                disabled={isSaving}
+                onBlur={(e) => handleRename(tag, e.target.value)}
+                className="md:w-[220px]"
+                aria-label={`Nome da etiqueta ${tag.name}`}
+              />
+              <ColorPicker
+                value={tag.color}
+                disabled={isSaving}
+                onChange={(color) => runMutation(supabase.from('tags').update({ color }).eq('id', tag.id), "Erro ao salvar etiqueta")}
+              />
+              <span className="text-sm text-muted-foreground md:ml-auto whitespace-nowrap">
+                {usage[tag.id] ?? 0} avaliação(ões)
+              </span>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" disabled={isSaving}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Excluir etiqueta</span>
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Excluir a etiqueta "{tag.name}"?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Ela sai de {usage[tag.id] ?? 0} avaliação(ões). As avaliações em si não são alteradas.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => runMutation(supabase.from('tags').delete().eq('id', tag.id), "Erro ao excluir etiqueta")}
+                    >
+                      Excluir
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Nova Etiqueta</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_auto_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="new-tag-name">Nome</Label>
+              <Input
+                id="new-tag-name"
+                placeholder="Ex.: Reclamação de preço"
+                maxLength={40}
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Cor</Label>
+              <ColorPicker value={newColor} onChange={setNewColor} />
+            </div>
+            <Button type="submit" disabled={isSaving || !newName.trim()} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Criar
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Tags;
@@ -0,0 +1,116 @@
+// Delivers one alert_events row to the configured webhook and email recipients.
+// Called by the alert_events_dispatch trigger through pg_net with { alert_event_id }.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import nodemailer from "npm:nodemailer@6";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+// Locally these point at the Inbucket mail catcher started by `supabase start` (see .env.example)
+const transporter = nodemailer.createTransport({
+  host: Deno.env.get("SMTP_HOST"),
+  port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+  secure: Deno.env.get("SMTP_SECURE") === "true",
+  auth: Deno.env.get("SMTP_USER")
+    ? { user: Deno.env.get("SMTP_USER"), pass: Deno.env.get("SMTP_PASSWORD") }
+    : undefined,
+});
+
+const APP_URL = Deno.env.get("APP_URL") ?? "http://localhost:8080";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+Deno.serve(async (req) => {
+  const { alert_event_id } = await req.json().catch(() => ({}));
+  if (!alert_event_id) return json({ error: "alert_event_id is required" }, 400);
+
+  // Claims the event before sending anything: of concurrent or repeated calls for the same
+  // event, only the one that moves it out of pending gets a row back and delivers it
+  const { data: event, error } = await supabase
+    .from("alert_events")
+    .update({ status: "sending" })
+    .eq("id", alert_event_id)
+    .eq("status", "pending")
+    .select("*, feedback:feedbacks (id, nome, average_rating, nps_score, comentario, table_number, created_at)")
+    .maybeSingle();
+
+  if (error) return json({ error: error.message }, 500);
+  if (!event) return json({ error: "Alert event not found or not pending" }, 409);
+
+  const { data: settings } = await supabase.from("alert_settings").select("*").single();
+  const feedback = event.feedback;
+  const payload = {
+    rule: event.rule_name,
+    reason: event.reason,
+    feedback: {
+      id: feedback.id,
+      nome: feedback.nome,
+      average_rating: feedback.average_rating,
+      nps_score: feedback.nps_score,
+      comentario: feedback.comentario,
+      table_number: feedback.table_number,
+      created_at: feedback.created_at,
+    },
+    link: `${APP_URL}/admin`,
+  };
+
+  let webhookStatus: string | null = null;
+  let emailStatus: string | null = null;
+  const errors: string[] = [];
+
+  if (event.notify_webhook && settings?.webhook_url) {
+    try {
+      const response = await fetch(settings.webhook_url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      webhookStatus = String(response.status);
+      if (!response.ok) errors.push(`Webhook respondeu ${response.status}`);
+    } catch (err) {
+      webhookStatus = "error";
+      errors.push(`Webhook: ${(err as Error).message}`);
+    }
+  }
+
+  if (event.notify_email && settings?.email_recipients?.length) {
+    try {
+      await transporter.sendMail({
+        from: Deno.env.get("SMTP_FROM") ?? "alertas@lardo.local",
+        to: settings.email_recipients.join(", "),
+        subject: `[Lardo] ${event.rule_name}: ${feedback.nome}`,
+        text: [
+          event.reason,
+          "",
+          `Cliente: ${feedback.nome}`,
+          `Nota média: ${feedback.average_rating ?? "—"}`,
+          feedback.table_number ? `Mesa: ${feedback.table_number}` : null,
+          feedback.comentario ? `Comentário: ${feedback.comentario}` : null,
+          "",
+          `Abrir painel: ${payload.link}`,
+        ].filter((line) => line !== null).join("\n"),
+      });
+      emailStatus = "sent";
+    } catch (err) {
+      emailStatus = "error";
+      errors.push(`E-mail: ${(err as Error).message}`);
+    }
+  }
+
+  const status = errors.length ? "failed" : "sent";
+  await supabase
+    .from("alert_events")
+    .update({
+      status,
+      webhook_status: webhookStatus,
+      email_status: emailStatus,
+      error: errors.join("; ") || null,
+      delivered_at: new Date().toISOString(),
+    })
+    .eq("id", alert_event_id);
+
+  return json({ status, webhook_status: webhookStatus, email_status: emailStatus });
+});
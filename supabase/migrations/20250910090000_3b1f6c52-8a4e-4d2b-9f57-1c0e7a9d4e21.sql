@@ -0,0 +1,63 @@
+-- Roles available to restaurant staff
+CREATE TYPE public.app_role AS ENUM ('admin', 'manager', 'staff');
+
+-- Role assignments per authenticated user
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer helpers so policies can check roles without recursing into user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id
+  )
+$$;
+
+-- Users can see their own roles, admins can see and manage everyone's
+CREATE POLICY "Users can read their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage roles"
+ON public.user_roles
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Feedbacks are no longer readable with the anon key
+DROP POLICY "Anyone can read feedback" ON public.feedbacks;
+
+CREATE POLICY "Staff can read feedback"
+ON public.feedbacks
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
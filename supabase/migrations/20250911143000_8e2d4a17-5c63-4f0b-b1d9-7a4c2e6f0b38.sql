@@ -0,0 +1,42 @@
+-- CPF check digits per the Receita Federal algorithm, expects the 11 digits only
+CREATE OR REPLACE FUNCTION public.is_valid_cpf(_cpf TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _sum INTEGER;
+  _digit INTEGER;
+  _position INTEGER;
+BEGIN
+  IF _cpf IS NULL OR _cpf !~ '^\d{11}$' OR _cpf ~ '^(\d)\1{10}$' THEN
+    RETURN FALSE;
+  END IF;
+
+  FOR _position IN 9..10 LOOP
+    _sum := 0;
+    FOR i IN 1.._position LOOP
+      _sum := _sum + substr(_cpf, i, 1)::INTEGER * (_position + 2 - i);
+    END LOOP;
+    _digit := (_sum * 10) % 11;
+    IF _digit = 10 THEN
+      _digit := 0;
+    END IF;
+    IF _digit <> substr(_cpf, _position + 1, 1)::INTEGER THEN
+      RETURN FALSE;
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Store CPFs in canonical digits-only form so "123.456.789-09" and "12345678909" group together
+UPDATE public.feedbacks
+SET cpf = regexp_replace(cpf, '\D', '', 'g')
+WHERE cpf ~ '\D';
+
+-- NOT VALID keeps legacy rows typed before validation existed, every new row is checked
+ALTER TABLE public.feedbacks
+ADD CONSTRAINT feedbacks_cpf_valid CHECK (public.is_valid_cpf(cpf)) NOT VALID;
@@ -0,0 +1,13 @@
+-- Store phones in E.164 so staff can call or message customers straight from the panel
+UPDATE public.feedbacks
+SET telefone = '+55' || regexp_replace(telefone, '\D', '', 'g')
+WHERE regexp_replace(telefone, '\D', '', 'g') ~ '^\d{10,11}$';
+
+UPDATE public.feedbacks
+SET telefone = '+' || regexp_replace(telefone, '\D', '', 'g')
+WHERE regexp_replace(telefone, '\D', '', 'g') ~ '^55\d{10,11}$'
+  AND telefone !~ '^\+55';
+
+-- NOT VALID keeps legacy rows that could not be normalized, every new row is checked
+ALTER TABLE public.feedbacks
+ADD CONSTRAINT feedbacks_telefone_e164 CHECK (telefone ~ '^\+55[1-9]{2}\d{8,9}$') NOT VALID;
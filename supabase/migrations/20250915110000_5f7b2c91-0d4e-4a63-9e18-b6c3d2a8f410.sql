@@ -0,0 +1,42 @@
+-- LGPD consent ledger, one row per submission with the policy version the customer agreed to
+CREATE TABLE public.consents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feedback_id UUID NOT NULL REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  cpf TEXT NOT NULL,
+  policy_version TEXT NOT NULL,
+  data_usage BOOLEAN NOT NULL,
+  marketing BOOLEAN NOT NULL DEFAULT false,
+  user_agent TEXT,
+  consented_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Feedback cannot be stored without consent to process the data
+  CONSTRAINT consents_data_usage_required CHECK (data_usage)
+);
+
+CREATE INDEX consents_cpf_consented_at_idx ON public.consents (cpf, consented_at DESC);
+
+ALTER TABLE public.consents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record consent"
+ON public.consents
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Staff can read consents"
+ON public.consents
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+-- Latest marketing choice per customer, the most recent submission wins
+CREATE VIEW public.customer_marketing_consent
+WITH (security_invoker = on) AS
+SELECT DISTINCT ON (cpf)
+  cpf,
+  marketing,
+  policy_version,
+  consented_at
+FROM public.consents
+ORDER BY cpf, consented_at DESC;
+
+-- Realtime so the panel picks up opt-ins that arrive right after a new feedback
+ALTER PUBLICATION supabase_realtime ADD TABLE public.consents;
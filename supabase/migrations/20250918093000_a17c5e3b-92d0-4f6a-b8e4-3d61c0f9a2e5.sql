@@ -0,0 +1,116 @@
+-- Anonymized feedbacks keep their ratings but no longer pass the CPF/phone format checks
+ALTER TABLE public.feedbacks ADD COLUMN anonymized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.feedbacks DROP CONSTRAINT feedbacks_cpf_valid;
+ALTER TABLE public.feedbacks
+ADD CONSTRAINT feedbacks_cpf_valid
+CHECK (anonymized_at IS NOT NULL OR public.is_valid_cpf(cpf)) NOT VALID;
+
+ALTER TABLE public.feedbacks DROP CONSTRAINT feedbacks_telefone_e164;
+ALTER TABLE public.feedbacks
+ADD CONSTRAINT feedbacks_telefone_e164
+CHECK (anonymized_at IS NOT NULL OR telefone ~ '^\+55[1-9]{2}\d{8,9}$') NOT VALID;
+
+-- Log of LGPD data subject requests. The CPF is kept only as a hash so the log itself holds no PII
+CREATE TABLE public.data_subject_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_type TEXT NOT NULL CHECK (request_type IN ('export', 'erase')),
+  cpf_hash TEXT NOT NULL,
+  affected_rows INTEGER NOT NULL DEFAULT 0,
+  requested_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.data_subject_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read data subject requests"
+ON public.data_subject_requests
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.hash_cpf(_cpf TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(regexp_replace(_cpf, '\D', '', 'g'), 'UTF8')), 'hex')
+$$;
+
+-- Everything we hold about a customer, as a single JSON document
+CREATE OR REPLACE FUNCTION public.export_customer_data(_cpf TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _result JSONB;
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export customer data' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO _count FROM public.feedbacks WHERE cpf = _digits;
+
+  SELECT jsonb_build_object(
+    'cpf', _digits,
+    'generated_at', now(),
+    'feedbacks', COALESCE((
+      SELECT jsonb_agg(to_jsonb(f) ORDER BY f.created_at)
+      FROM public.feedbacks f
+      WHERE f.cpf = _digits
+    ), '[]'::jsonb),
+    'consents', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) ORDER BY c.consented_at)
+      FROM public.consents c
+      WHERE c.cpf = _digits
+    ), '[]'::jsonb)
+  ) INTO _result;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('export', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _result;
+END;
+$$;
+
+-- Removes personal data but keeps the ratings so dashboard averages stay correct
+CREATE OR REPLACE FUNCTION public.erase_customer_data(_cpf TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can erase customer data' USING ERRCODE = '42501';
+  END IF;
+
+  -- Consents stay as proof of what was agreed, unlinked from the person
+  UPDATE public.consents
+  SET cpf = 'anon-' || feedback_id::TEXT,
+      user_agent = NULL
+  WHERE cpf = _digits;
+
+  UPDATE public.feedbacks
+  SET nome = 'Titular anonimizado',
+      cpf = 'anon-' || id::TEXT,
+      telefone = '',
+      instagram = NULL,
+      anonymized_at = now()
+  WHERE cpf = _digits;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('erase', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _count;
+END;
+$$;
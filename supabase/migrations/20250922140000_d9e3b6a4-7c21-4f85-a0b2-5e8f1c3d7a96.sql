@@ -0,0 +1,116 @@
+-- Dashboard aggregates computed in Postgres so the panel no longer downloads every row.
+-- All functions run as the caller, so the "Staff can read feedback" policy still applies.
+
+CREATE OR REPLACE FUNCTION public.feedbacks_in_period(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS SETOF public.feedbacks
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.feedbacks
+  WHERE (_from IS NULL OR created_at >= _from)
+    AND (_to IS NULL OR created_at <= _to)
+$$;
+
+CREATE INDEX IF NOT EXISTS feedbacks_created_at_idx ON public.feedbacks (created_at DESC);
+
+-- Headline numbers: total, average per criterion, overall average and share of recurrent customers
+CREATE OR REPLACE FUNCTION public.feedback_summary(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  total_feedbacks BIGINT,
+  qualidade_comida NUMERIC,
+  atendimento NUMERIC,
+  tempo_espera NUMERIC,
+  higiene_limpeza NUMERIC,
+  custo_beneficio NUMERIC,
+  ambiente_conforto NUMERIC,
+  overall_average NUMERIC,
+  recurrent_percentage INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT * FROM public.feedbacks_in_period(_from, _to)
+  ),
+  customers AS (
+    SELECT cpf, count(*) AS visits FROM filtered GROUP BY cpf
+  )
+  SELECT
+    count(*),
+    avg(f.qualidade_comida),
+    avg(f.atendimento),
+    avg(f.tempo_espera),
+    avg(f.higiene_limpeza),
+    avg(f.custo_beneficio),
+    avg(f.ambiente_conforto),
+    (avg(f.qualidade_comida) + avg(f.atendimento) + avg(f.tempo_espera) +
+      avg(f.higiene_limpeza) + avg(f.custo_beneficio) + avg(f.ambiente_conforto)) / 6,
+    COALESCE((
+      SELECT round(100.0 * count(*) FILTER (WHERE visits > 1) / NULLIF(count(*), 0))::INTEGER
+      FROM customers
+    ), 0)
+  FROM filtered f
+$$;
+
+-- Number of feedbacks per rounded overall rating, always returns the five buckets
+CREATE OR REPLACE FUNCTION public.feedback_rating_distribution(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (rating INTEGER, count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.rating, count(f.id)
+  FROM generate_series(1, 5) AS r(rating)
+  LEFT JOIN public.feedbacks_in_period(_from, _to) f
+    ON round((f.qualidade_comida + f.atendimento + f.tempo_espera +
+      f.higiene_limpeza + f.custo_beneficio + f.ambiente_conforto)::NUMERIC / 6) = r.rating
+  GROUP BY r.rating
+  ORDER BY r.rating
+$$;
+
+-- Averages and volume per day, week (starting Monday) or month in the restaurant's time zone
+CREATE OR REPLACE FUNCTION public.feedback_time_buckets(
+  _granularity TEXT,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket TIMESTAMP,
+  volume BIGINT,
+  qualidade_comida NUMERIC,
+  atendimento NUMERIC,
+  tempo_espera NUMERIC,
+  higiene_limpeza NUMERIC,
+  custo_beneficio NUMERIC,
+  ambiente_conforto NUMERIC,
+  overall_average NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid granularity: %', _granularity USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(_granularity, f.created_at AT TIME ZONE 'America/Sao_Paulo'),
+    count(*),
+    round(avg(f.qualidade_comida), 2),
+    round(avg(f.atendimento), 2),
+    round(avg(f.tempo_espera), 2),
+    round(avg(f.higiene_limpeza), 2),
+    round(avg(f.custo_beneficio), 2),
+    round(avg(f.ambiente_conforto), 2),
+    round((avg(f.qualidade_comida) + avg(f.atendimento) + avg(f.tempo_espera) +
+      avg(f.higiene_limpeza) + avg(f.custo_beneficio) + avg(f.ambiente_conforto)) / 6, 2)
+  FROM public.feedbacks_in_period(_from, _to) f
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$;
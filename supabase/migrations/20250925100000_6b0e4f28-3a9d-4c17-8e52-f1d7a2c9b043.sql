@@ -0,0 +1,24 @@
+-- Stored overall average so the list can be sorted and filtered by the database
+ALTER TABLE public.feedbacks
+ADD COLUMN average_rating NUMERIC GENERATED ALWAYS AS (
+  (qualidade_comida + atendimento + tempo_espera + higiene_limpeza + custo_beneficio + ambiente_conforto)::NUMERIC / 6
+) STORED;
+
+CREATE INDEX feedbacks_average_rating_idx ON public.feedbacks (average_rating, created_at DESC);
+
+-- Full-text search over name, Instagram handle and comment
+ALTER TABLE public.feedbacks
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  to_tsvector('portuguese', coalesce(nome, '') || ' ' || coalesce(instagram, '') || ' ' || coalesce(comentario, ''))
+) STORED;
+
+CREATE INDEX feedbacks_search_vector_idx ON public.feedbacks USING GIN (search_vector);
+
+-- What the "Lista de Avaliações" pages through: each feedback plus the customer's latest marketing choice
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.*,
+  COALESCE(c.marketing, false) AS marketing_opt_in
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf;
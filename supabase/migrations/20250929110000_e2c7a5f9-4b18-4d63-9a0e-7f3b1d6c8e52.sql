@@ -0,0 +1,288 @@
+-- Rating criteria are now data: admins can add, reorder, rename or retire them.
+-- Retired criteria keep their historical ratings, they just stop being asked.
+CREATE TABLE public.rating_criteria (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9_]+$'),
+  label TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  required BOOLEAN NOT NULL DEFAULT true,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rating_criteria ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read rating criteria"
+ON public.rating_criteria
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage rating criteria"
+ON public.rating_criteria
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The six criteria that used to be hard-coded, keyed by their old column names
+INSERT INTO public.rating_criteria (key, label, sort_order) VALUES
+  ('qualidade_comida', 'Qualidade da Comida', 1),
+  ('atendimento', 'Atendimento da Equipe', 2),
+  ('tempo_espera', 'Tempo de Espera', 3),
+  ('higiene_limpeza', 'Higiene e Limpeza', 4),
+  ('custo_beneficio', 'Custo-Benefício', 5),
+  ('ambiente_conforto', 'Ambiente e Conforto', 6);
+
+CREATE TABLE public.feedback_ratings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feedback_id UUID NOT NULL REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.rating_criteria (id) ON DELETE RESTRICT,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  UNIQUE (feedback_id, criterion_id)
+);
+
+CREATE INDEX feedback_ratings_criterion_id_idx ON public.feedback_ratings (criterion_id);
+
+ALTER TABLE public.feedback_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can insert ratings"
+ON public.feedback_ratings
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Staff can read ratings"
+ON public.feedback_ratings
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+-- Move the existing column ratings into the child table
+INSERT INTO public.feedback_ratings (feedback_id, criterion_id, rating)
+SELECT f.id, c.id, v.rating
+FROM public.feedbacks f
+CROSS JOIN LATERAL (VALUES
+  ('qualidade_comida', f.qualidade_comida),
+  ('atendimento', f.atendimento),
+  ('tempo_espera', f.tempo_espera),
+  ('higiene_limpeza', f.higiene_limpeza),
+  ('custo_beneficio', f.custo_beneficio),
+  ('ambiente_conforto', f.ambiente_conforto)
+) AS v(key, rating)
+JOIN public.rating_criteria c ON c.key = v.key
+WHERE v.rating IS NOT NULL;
+
+-- The old columns stay for history but new feedbacks no longer fill them
+COMMENT ON COLUMN public.feedbacks.qualidade_comida IS 'Deprecated, see feedback_ratings';
+COMMENT ON COLUMN public.feedbacks.atendimento IS 'Deprecated, see feedback_ratings';
+COMMENT ON COLUMN public.feedbacks.tempo_espera IS 'Deprecated, see feedback_ratings';
+COMMENT ON COLUMN public.feedbacks.higiene_limpeza IS 'Deprecated, see feedback_ratings';
+COMMENT ON COLUMN public.feedbacks.custo_beneficio IS 'Deprecated, see feedback_ratings';
+COMMENT ON COLUMN public.feedbacks.ambiente_conforto IS 'Deprecated, see feedback_ratings';
+
+-- average_rating can no longer be a generated column, a trigger keeps it in sync with the child rows
+DROP VIEW public.feedback_list;
+ALTER TABLE public.feedbacks DROP COLUMN average_rating;
+ALTER TABLE public.feedbacks ADD COLUMN average_rating NUMERIC;
+
+UPDATE public.feedbacks f
+SET average_rating = r.average
+FROM (
+  SELECT feedback_id, avg(rating) AS average
+  FROM public.feedback_ratings
+  GROUP BY feedback_id
+) r
+WHERE r.feedback_id = f.id;
+
+CREATE INDEX feedbacks_average_rating_idx ON public.feedbacks (average_rating, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.refresh_feedback_average()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feedback_id UUID := COALESCE(NEW.feedback_id, OLD.feedback_id);
+BEGIN
+  UPDATE public.feedbacks
+  SET average_rating = (
+    SELECT avg(rating) FROM public.feedback_ratings WHERE feedback_id = _feedback_id
+  )
+  WHERE id = _feedback_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER feedback_ratings_refresh_average
+AFTER INSERT OR UPDATE OR DELETE ON public.feedback_ratings
+FOR EACH ROW EXECUTE FUNCTION public.refresh_feedback_average();
+
+-- Ratings of one feedback as {criterion_key: rating}
+CREATE OR REPLACE FUNCTION public.feedback_ratings_json(_feedback_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(c.key, r.rating), '{}'::jsonb)
+  FROM public.feedback_ratings r
+  JOIN public.rating_criteria c ON c.id = r.criterion_id
+  WHERE r.feedback_id = _feedback_id
+$$;
+
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.*,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf;
+
+-- Aggregates now return per-criterion averages as {criterion_key: average}
+DROP FUNCTION public.feedback_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION public.feedback_time_buckets(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.feedback_summary(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  total_feedbacks BIGINT,
+  criteria_averages JSONB,
+  overall_average NUMERIC,
+  recurrent_percentage INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT * FROM public.feedbacks_in_period(_from, _to)
+  ),
+  customers AS (
+    SELECT cpf, count(*) AS visits FROM filtered GROUP BY cpf
+  )
+  SELECT
+    (SELECT count(*) FROM filtered),
+    COALESCE((
+      SELECT jsonb_object_agg(key, average)
+      FROM (
+        SELECT c.key, avg(r.rating) AS average
+        FROM filtered f
+        JOIN public.feedback_ratings r ON r.feedback_id = f.id
+        JOIN public.rating_criteria c ON c.id = r.criterion_id
+        GROUP BY c.key
+      ) per_criterion
+    ), '{}'::jsonb),
+    (SELECT avg(average_rating) FROM filtered),
+    COALESCE((
+      SELECT round(100.0 * count(*) FILTER (WHERE visits > 1) / NULLIF(count(*), 0))::INTEGER
+      FROM customers
+    ), 0)
+$$;
+
+CREATE OR REPLACE FUNCTION public.feedback_rating_distribution(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (rating INTEGER, count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.rating, count(f.id)
+  FROM generate_series(1, 5) AS r(rating)
+  LEFT JOIN public.feedbacks_in_period(_from, _to) f
+    ON round(f.average_rating) = r.rating
+  GROUP BY r.rating
+  ORDER BY r.rating
+$$;
+
+CREATE OR REPLACE FUNCTION public.feedback_time_buckets(
+  _granularity TEXT,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket TIMESTAMP,
+  volume BIGINT,
+  criteria_averages JSONB,
+  overall_average NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid granularity: %', _granularity USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH filtered AS (
+    SELECT
+      f.*,
+      date_trunc(_granularity, f.created_at AT TIME ZONE 'America/Sao_Paulo') AS period
+    FROM public.feedbacks_in_period(_from, _to) f
+  ),
+  per_criterion AS (
+    SELECT a.period, jsonb_object_agg(c.key, a.average) AS averages
+    FROM (
+      SELECT f.period, r.criterion_id, round(avg(r.rating), 2) AS average
+      FROM filtered f
+      JOIN public.feedback_ratings r ON r.feedback_id = f.id
+      GROUP BY f.period, r.criterion_id
+    ) a
+    JOIN public.rating_criteria c ON c.id = a.criterion_id
+    GROUP BY a.period
+  )
+  SELECT
+    f.period,
+    count(*),
+    COALESCE(p.averages, '{}'::jsonb),
+    round(avg(f.average_rating), 2)
+  FROM filtered f
+  LEFT JOIN per_criterion p ON p.period = f.period
+  GROUP BY f.period, p.averages
+  ORDER BY f.period;
+END;
+$$;
+
+-- LGPD export now includes the per-criterion ratings
+CREATE OR REPLACE FUNCTION public.export_customer_data(_cpf TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _result JSONB;
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export customer data' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO _count FROM public.feedbacks WHERE cpf = _digits;
+
+  SELECT jsonb_build_object(
+    'cpf', _digits,
+    'generated_at', now(),
+    'feedbacks', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(f) - 'search_vector') || jsonb_build_object('ratings', public.feedback_ratings_json(f.id))
+        ORDER BY f.created_at
+      )
+      FROM public.feedbacks f
+      WHERE f.cpf = _digits
+    ), '[]'::jsonb),
+    'consents', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) ORDER BY c.consented_at)
+      FROM public.consents c
+      WHERE c.cpf = _digits
+    ), '[]'::jsonb)
+  ) INTO _result;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('export', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _result;
+END;
+$$;
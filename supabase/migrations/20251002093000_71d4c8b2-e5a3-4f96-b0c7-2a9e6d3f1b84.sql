@@ -0,0 +1,92 @@
+-- "De 0 a 10, quanto você recomendaria o Lardo?" Nullable because older feedbacks never asked it
+ALTER TABLE public.feedbacks
+ADD COLUMN nps_score SMALLINT CHECK (nps_score BETWEEN 0 AND 10);
+
+-- Recreated so f.* picks up the new column
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.*,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf;
+
+-- Promoters answer 9-10, passives 7-8 and detractors 0-6; NPS = % promoters - % detractors
+CREATE OR REPLACE FUNCTION public.feedback_nps(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  responses BIGINT,
+  promoters BIGINT,
+  passives BIGINT,
+  detractors BIGINT,
+  nps_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(nps_score),
+    count(*) FILTER (WHERE nps_score >= 9),
+    count(*) FILTER (WHERE nps_score BETWEEN 7 AND 8),
+    count(*) FILTER (WHERE nps_score <= 6),
+    round(100.0 * (count(*) FILTER (WHERE nps_score >= 9) - count(*) FILTER (WHERE nps_score <= 6))
+      / NULLIF(count(nps_score), 0), 1)
+  FROM public.feedbacks_in_period(_from, _to)
+$$;
+
+DROP FUNCTION public.feedback_time_buckets(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.feedback_time_buckets(
+  _granularity TEXT,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket TIMESTAMP,
+  volume BIGINT,
+  criteria_averages JSONB,
+  overall_average NUMERIC,
+  nps_score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _granularity NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid granularity: %', _granularity USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH filtered AS (
+    SELECT
+      f.*,
+      date_trunc(_granularity, f.created_at AT TIME ZONE 'America/Sao_Paulo') AS period
+    FROM public.feedbacks_in_period(_from, _to) f
+  ),
+  per_criterion AS (
+    SELECT a.period, jsonb_object_agg(c.key, a.average) AS averages
+    FROM (
+      SELECT f.period, r.criterion_id, round(avg(r.rating), 2) AS average
+      FROM filtered f
+      JOIN public.feedback_ratings r ON r.feedback_id = f.id
+      GROUP BY f.period, r.criterion_id
+    ) a
+    JOIN public.rating_criteria c ON c.id = a.criterion_id
+    GROUP BY a.period
+  )
+  SELECT
+    f.period,
+    count(*),
+    COALESCE(p.averages, '{}'::jsonb),
+    round(avg(f.average_rating), 2),
+    round(100.0 * (count(*) FILTER (WHERE f.nps_score >= 9) - count(*) FILTER (WHERE f.nps_score <= 6))
+      / NULLIF(count(f.nps_score), 0), 1)
+  FROM filtered f
+  LEFT JOIN per_criterion p ON p.period = f.period
+  GROUP BY f.period, p.averages
+  ORDER BY f.period;
+END;
+$$;
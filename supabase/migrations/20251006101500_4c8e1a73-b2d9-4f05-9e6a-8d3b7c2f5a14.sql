@@ -0,0 +1,110 @@
+-- Tables customers sit at, each with a printed QR code pointing to /avaliar?mesa=<number>
+CREATE TYPE public.dining_area AS ENUM ('salao', 'varanda', 'sebo');
+
+CREATE TABLE public.dining_tables (
+  number SMALLINT NOT NULL PRIMARY KEY CHECK (number > 0),
+  area public.dining_area NOT NULL,
+  seats SMALLINT CHECK (seats > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.dining_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read dining tables"
+ON public.dining_tables
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage dining tables"
+ON public.dining_tables
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- No foreign key on table_number: a stale or mistyped QR code must not lose the feedback.
+-- The area is copied on insert so moving a table later doesn't rewrite history.
+ALTER TABLE public.feedbacks
+ADD COLUMN table_number SMALLINT,
+ADD COLUMN area public.dining_area;
+
+CREATE INDEX feedbacks_table_number_idx ON public.feedbacks (table_number);
+
+CREATE OR REPLACE FUNCTION public.set_feedback_area()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.table_number IS NOT NULL THEN
+    SELECT area INTO NEW.area FROM public.dining_tables WHERE number = NEW.table_number;
+  ELSE
+    NEW.area := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER feedbacks_set_area
+BEFORE INSERT ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.set_feedback_area();
+
+-- Recreated so f.* picks up the new columns
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.*,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf;
+
+CREATE OR REPLACE FUNCTION public.feedback_by_table(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  table_number SMALLINT,
+  area public.dining_area,
+  volume BIGINT,
+  overall_average NUMERIC,
+  nps_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    f.table_number,
+    f.area,
+    count(*),
+    round(avg(f.average_rating), 2),
+    round(100.0 * (count(*) FILTER (WHERE f.nps_score >= 9) - count(*) FILTER (WHERE f.nps_score <= 6))
+      / NULLIF(count(f.nps_score), 0), 1)
+  FROM public.feedbacks_in_period(_from, _to) f
+  WHERE f.table_number IS NOT NULL
+  GROUP BY f.table_number, f.area
+  ORDER BY f.table_number
+$$;
+
+CREATE OR REPLACE FUNCTION public.feedback_by_area(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  area public.dining_area,
+  volume BIGINT,
+  overall_average NUMERIC,
+  nps_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    f.area,
+    count(*),
+    round(avg(f.average_rating), 2),
+    round(100.0 * (count(*) FILTER (WHERE f.nps_score >= 9) - count(*) FILTER (WHERE f.nps_score <= 6))
+      / NULLIF(count(f.nps_score), 0), 1)
+  FROM public.feedbacks_in_period(_from, _to) f
+  WHERE f.area IS NOT NULL
+  GROUP BY f.area
+  ORDER BY f.area
+$$;
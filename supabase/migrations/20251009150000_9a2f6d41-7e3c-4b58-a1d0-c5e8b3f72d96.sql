@@ -0,0 +1,86 @@
+-- Single row holding the PIN that unlocks the counter tablet out of kiosk mode.
+-- Only reachable through the functions below, the hash never leaves the database.
+CREATE TABLE public.kiosk_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  pin_hash TEXT NOT NULL,
+  pin_salt TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.kiosk_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.set_kiosk_pin(_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _salt TEXT := encode(sha256(convert_to(gen_random_uuid()::text, 'UTF8')), 'hex');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change the kiosk PIN' USING ERRCODE = '42501';
+  END IF;
+
+  IF _pin !~ '^\d{6}$' THEN
+    RAISE EXCEPTION 'Kiosk PIN must have 6 digits' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.kiosk_settings (id, pin_hash, pin_salt, updated_by)
+  VALUES (true, encode(sha256(convert_to(_salt || _pin, 'UTF8')), 'hex'), _salt, auth.uid())
+  ON CONFLICT (id) DO UPDATE SET
+    pin_hash = EXCLUDED.pin_hash,
+    pin_salt = EXCLUDED.pin_salt,
+    failed_attempts = 0,
+    locked_until = NULL,
+    updated_at = now(),
+    updated_by = EXCLUDED.updated_by;
+END;
+$$;
+
+-- Called by the anonymous kiosk. Five wrong PINs lock it for five minutes.
+-- Returns 'ok', 'invalid', 'locked' or 'not_configured'.
+CREATE OR REPLACE FUNCTION public.verify_kiosk_pin(_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.kiosk_settings;
+BEGIN
+  SELECT * INTO _settings FROM public.kiosk_settings FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_configured';
+  END IF;
+
+  IF _settings.locked_until > now() THEN
+    RETURN 'locked';
+  END IF;
+
+  IF _settings.pin_hash = encode(sha256(convert_to(_settings.pin_salt || _pin, 'UTF8')), 'hex') THEN
+    UPDATE public.kiosk_settings SET failed_attempts = 0, locked_until = NULL;
+    RETURN 'ok';
+  END IF;
+
+  UPDATE public.kiosk_settings SET
+    failed_attempts = CASE WHEN _settings.failed_attempts + 1 >= 5 THEN 0 ELSE _settings.failed_attempts + 1 END,
+    locked_until = CASE WHEN _settings.failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' END;
+  RETURN 'invalid';
+END;
+$$;
+
+-- Lets the admin screen show whether a PIN exists without exposing the table
+CREATE OR REPLACE FUNCTION public.kiosk_pin_updated_at()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT updated_at FROM public.kiosk_settings WHERE public.is_staff(auth.uid())
+$$;
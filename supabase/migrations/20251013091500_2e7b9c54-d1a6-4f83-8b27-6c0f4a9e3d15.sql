@@ -0,0 +1,4 @@
+-- Offline submissions are retried until they go through, so every insert must be safe to repeat.
+-- feedbacks (id) and feedback_ratings (feedback_id, criterion_id) are already unique.
+ALTER TABLE public.consents
+ADD CONSTRAINT consents_feedback_id_key UNIQUE (feedback_id);
@@ -0,0 +1,293 @@
+-- Follow-up workflow: every feedback gets a case that staff move from "novo" to "resolvido",
+-- with an assignee, internal notes and a full change history.
+CREATE TYPE public.feedback_status AS ENUM ('novo', 'em_analise', 'contatado', 'resolvido');
+
+CREATE TABLE public.feedback_cases (
+  feedback_id UUID NOT NULL PRIMARY KEY REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  status public.feedback_status NOT NULL DEFAULT 'novo',
+  assignee_id UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  resolution_reason TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  CONSTRAINT feedback_cases_resolution_required CHECK (status <> 'resolvido' OR resolution_reason IS NOT NULL)
+);
+
+CREATE INDEX feedback_cases_status_idx ON public.feedback_cases (status);
+CREATE INDEX feedback_cases_assignee_id_idx ON public.feedback_cases (assignee_id);
+
+CREATE TABLE public.feedback_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feedback_id UUID NOT NULL REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX feedback_notes_feedback_id_idx ON public.feedback_notes (feedback_id, created_at);
+
+-- Written only by the trigger below, one row per changed field
+CREATE TABLE public.feedback_case_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feedback_id UUID NOT NULL REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  field TEXT NOT NULL CHECK (field IN ('status', 'assignee', 'resolution_reason')),
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX feedback_case_events_feedback_id_idx ON public.feedback_case_events (feedback_id, created_at);
+
+ALTER TABLE public.feedback_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feedback_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feedback_case_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read feedback cases"
+ON public.feedback_cases
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can update feedback cases"
+ON public.feedback_cases
+FOR UPDATE
+TO authenticated
+USING (public.is_staff(auth.uid()))
+WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can read feedback notes"
+ON public.feedback_notes
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can add their own notes"
+ON public.feedback_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_staff(auth.uid()) AND author_id = auth.uid());
+
+CREATE POLICY "Staff can read case history"
+ON public.feedback_case_events
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+-- Security definer so the anonymous form insert can open the case
+CREATE OR REPLACE FUNCTION public.open_feedback_case()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.feedback_cases (feedback_id) VALUES (NEW.id) ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER feedbacks_open_case
+AFTER INSERT ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.open_feedback_case();
+
+INSERT INTO public.feedback_cases (feedback_id)
+SELECT id FROM public.feedbacks;
+
+CREATE OR REPLACE FUNCTION public.track_feedback_case_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+
+  -- Reopening a case clears the old resolution
+  IF NEW.status <> 'resolvido' THEN
+    NEW.resolution_reason := NULL;
+  END IF;
+
+  INSERT INTO public.feedback_case_events (feedback_id, actor_id, field, old_value, new_value)
+  SELECT NEW.feedback_id, auth.uid(), changed.field, changed.old_value, changed.new_value
+  FROM (VALUES
+    ('status', OLD.status::TEXT, NEW.status::TEXT),
+    ('assignee', OLD.assignee_id::TEXT, NEW.assignee_id::TEXT),
+    ('resolution_reason', OLD.resolution_reason, NEW.resolution_reason)
+  ) AS changed (field, old_value, new_value)
+  WHERE changed.old_value IS DISTINCT FROM changed.new_value;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER feedback_cases_track_changes
+BEFORE UPDATE ON public.feedback_cases
+FOR EACH ROW EXECUTE FUNCTION public.track_feedback_case_changes();
+
+-- auth.users is not exposed to the API, staff pick assignees and read note authors from here
+CREATE OR REPLACE FUNCTION public.staff_directory()
+RETURNS TABLE (user_id UUID, email TEXT, role public.app_role)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (u.id) u.id, u.email::TEXT, r.role
+  FROM auth.users u
+  JOIN public.user_roles r ON r.user_id = u.id
+  WHERE public.is_staff(auth.uid())
+  ORDER BY u.id, CASE r.role WHEN 'admin' THEN 1 WHEN 'manager' THEN 2 ELSE 3 END
+$$;
+
+-- Recreated to expose the case next to each feedback
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.*,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
+
+-- Same threshold as the highlighted cards in the list
+DROP FUNCTION public.feedback_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.feedback_summary(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  total_feedbacks BIGINT,
+  criteria_averages JSONB,
+  overall_average NUMERIC,
+  recurrent_percentage INTEGER,
+  open_negative BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT * FROM public.feedbacks_in_period(_from, _to)
+  ),
+  customers AS (
+    SELECT cpf, count(*) AS visits FROM filtered GROUP BY cpf
+  )
+  SELECT
+    (SELECT count(*) FROM filtered),
+    COALESCE((
+      SELECT jsonb_object_agg(key, average)
+      FROM (
+        SELECT c.key, avg(r.rating) AS average
+        FROM filtered f
+        JOIN public.feedback_ratings r ON r.feedback_id = f.id
+        JOIN public.rating_criteria c ON c.id = r.criterion_id
+        GROUP BY c.key
+      ) per_criterion
+    ), '{}'::jsonb),
+    (SELECT avg(average_rating) FROM filtered),
+    COALESCE((
+      SELECT round(100.0 * count(*) FILTER (WHERE visits > 1) / NULLIF(count(*), 0))::INTEGER
+      FROM customers
+    ), 0),
+    (
+      SELECT count(*)
+      FROM filtered f
+      JOIN public.feedback_cases fc ON fc.feedback_id = f.id
+      WHERE f.average_rating <= 3 AND fc.status <> 'resolvido'
+    )
+$$;
+
+-- Internal notes are about the customer, so they go in the LGPD export and are wiped on erasure
+CREATE OR REPLACE FUNCTION public.export_customer_data(_cpf TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _result JSONB;
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export customer data' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO _count FROM public.feedbacks WHERE cpf = _digits;
+
+  SELECT jsonb_build_object(
+    'cpf', _digits,
+    'generated_at', now(),
+    'feedbacks', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(f) - 'search_vector') || jsonb_build_object('ratings', public.feedback_ratings_json(f.id))
+        ORDER BY f.created_at
+      )
+      FROM public.feedbacks f
+      WHERE f.cpf = _digits
+    ), '[]'::jsonb),
+    'consents', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) ORDER BY c.consented_at)
+      FROM public.consents c
+      WHERE c.cpf = _digits
+    ), '[]'::jsonb),
+    'notes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('feedback_id', n.feedback_id, 'body', n.body, 'created_at', n.created_at) ORDER BY n.created_at)
+      FROM public.feedback_notes n
+      JOIN public.feedbacks f ON f.id = n.feedback_id
+      WHERE f.cpf = _digits
+    ), '[]'::jsonb)
+  ) INTO _result;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('export', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.erase_customer_data(_cpf TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can erase customer data' USING ERRCODE = '42501';
+  END IF;
+
+  -- Consents stay as proof of what was agreed, unlinked from the person
+  UPDATE public.consents
+  SET cpf = 'anon-' || feedback_id::TEXT,
+      user_agent = NULL
+  WHERE cpf = _digits;
+
+  UPDATE public.feedback_notes n
+  SET body = '[removido a pedido do titular]'
+  FROM public.feedbacks f
+  WHERE f.id = n.feedback_id AND f.cpf = _digits;
+
+  UPDATE public.feedbacks
+  SET nome = 'Titular anonimizado',
+      cpf = 'anon-' || id::TEXT,
+      telefone = '',
+      instagram = NULL,
+      anonymized_at = now()
+  WHERE cpf = _digits;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('erase', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _count;
+END;
+$$;
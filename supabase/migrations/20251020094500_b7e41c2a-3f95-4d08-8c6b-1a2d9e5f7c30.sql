@@ -0,0 +1,202 @@
+-- Alert rules checked against every new feedback. Matches are logged in alert_events and
+-- handed to the deliver-alert edge function, which posts to the webhook and sends the email.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE TYPE public.alert_rule_type AS ENUM ('average_below', 'criterion_at_most', 'keyword');
+
+CREATE TABLE public.alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  rule_type public.alert_rule_type NOT NULL,
+  -- average_below: fires when the average is lower; criterion_at_most: when any rating is this or lower
+  threshold NUMERIC(3, 1),
+  -- criterion_at_most only, NULL means any criterion
+  criterion_id UUID REFERENCES public.rating_criteria (id) ON DELETE CASCADE,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  notify_webhook BOOLEAN NOT NULL DEFAULT true,
+  notify_email BOOLEAN NOT NULL DEFAULT true,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT alert_rules_parameters CHECK (
+    CASE rule_type
+      WHEN 'average_below' THEN threshold BETWEEN 1 AND 5
+      WHEN 'criterion_at_most' THEN threshold BETWEEN 1 AND 5
+      WHEN 'keyword' THEN cardinality(keywords) > 0
+    END
+  )
+);
+
+-- Where alerts go. Single row; SMTP credentials live in the edge function's secrets, not here.
+CREATE TABLE public.alert_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  webhook_url TEXT,
+  email_recipients TEXT[] NOT NULL DEFAULT '{}',
+  -- Public URL of the deliver-alert function, e.g. http://host.docker.internal:54321/functions/v1/deliver-alert locally
+  delivery_function_url TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.alert_settings (id) VALUES (true);
+
+CREATE TABLE public.alert_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID REFERENCES public.alert_rules (id) ON DELETE SET NULL,
+  feedback_id UUID NOT NULL REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  -- Copied so the log still reads correctly after the rule is edited or deleted
+  rule_name TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  notify_webhook BOOLEAN NOT NULL,
+  notify_email BOOLEAN NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  webhook_status TEXT,
+  email_status TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX alert_events_created_at_idx ON public.alert_events (created_at DESC);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read alert rules"
+ON public.alert_rules
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can manage alert rules"
+ON public.alert_rules
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can read alert settings"
+ON public.alert_settings
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update alert settings"
+ON public.alert_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can read alert events"
+ON public.alert_events
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+-- Lets an admin retry a failed delivery from the log
+CREATE POLICY "Admins can requeue alert events"
+ON public.alert_events
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.evaluate_feedback_alerts(_feedback_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feedback public.feedbacks;
+  _rule public.alert_rules;
+  _reason TEXT;
+  _count INTEGER := 0;
+BEGIN
+  SELECT * INTO _feedback FROM public.feedbacks WHERE id = _feedback_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR _rule IN SELECT * FROM public.alert_rules WHERE active LOOP
+    _reason := NULL;
+
+    IF _rule.rule_type = 'average_below' AND _feedback.average_rating < _rule.threshold THEN
+      _reason := format('Média %s abaixo de %s', round(_feedback.average_rating, 1), _rule.threshold);
+    ELSIF _rule.rule_type = 'criterion_at_most' THEN
+      SELECT string_agg(format('%s: %s', c.label, r.rating), ', ' ORDER BY c.sort_order)
+      INTO _reason
+      FROM public.feedback_ratings r
+      JOIN public.rating_criteria c ON c.id = r.criterion_id
+      WHERE r.feedback_id = _feedback_id
+        AND r.rating <= _rule.threshold
+        AND (_rule.criterion_id IS NULL OR r.criterion_id = _rule.criterion_id);
+    ELSIF _rule.rule_type = 'keyword' AND _feedback.comentario IS NOT NULL THEN
+      SELECT 'Comentário menciona: ' || string_agg(keyword, ', ')
+      INTO _reason
+      FROM unnest(_rule.keywords) AS keyword
+      WHERE position(lower(keyword) IN lower(_feedback.comentario)) > 0;
+    END IF;
+
+    IF _reason IS NOT NULL THEN
+      INSERT INTO public.alert_events (rule_id, feedback_id, rule_name, reason, notify_webhook, notify_email)
+      VALUES (_rule.id, _feedback_id, _rule.name, _reason, _rule.notify_webhook, _rule.notify_email);
+      _count := _count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Only the trigger below runs it, otherwise anyone could re-send alerts for an old feedback
+REVOKE EXECUTE ON FUNCTION public.evaluate_feedback_alerts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Runs on the consent row, which submit_feedback inserts last, in the same transaction as the
+-- feedback and its ratings, so by now the ratings and average are in place. Imported feedbacks
+-- have no consent row and never raise alerts.
+CREATE OR REPLACE FUNCTION public.evaluate_alerts_after_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_feedback_alerts(NEW.feedback_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consents_evaluate_alerts
+AFTER INSERT ON public.consents
+FOR EACH ROW EXECUTE FUNCTION public.evaluate_alerts_after_submission();
+
+-- Fires the edge function asynchronously through pg_net, so a slow webhook never blocks the form
+CREATE OR REPLACE FUNCTION public.dispatch_alert_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _url TEXT;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT delivery_function_url INTO _url FROM public.alert_settings;
+  IF _url IS NOT NULL THEN
+    PERFORM net.http_post(
+      url := _url,
+      body := jsonb_build_object('alert_event_id', NEW.id),
+      headers := '{"Content-Type": "application/json"}'::jsonb
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER alert_events_dispatch
+AFTER INSERT OR UPDATE OF status ON public.alert_events
+FOR EACH ROW EXECUTE FUNCTION public.dispatch_alert_event();
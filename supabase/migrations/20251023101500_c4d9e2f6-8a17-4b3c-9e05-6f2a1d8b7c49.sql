@@ -0,0 +1,283 @@
+-- Customer profiles: everything a person has sent us, grouped by CPF. Customers are addressed
+-- by hash_cpf(cpf) so profile links and notes never carry the CPF itself.
+CREATE INDEX feedbacks_cpf_hash_idx ON public.feedbacks (public.hash_cpf(cpf));
+
+-- "12345678909" -> "***.456.789-**"
+CREATE OR REPLACE FUNCTION public.mask_cpf(_cpf TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '***.' || substr(d, 4, 3) || '.' || substr(d, 7, 3) || '-**'
+  FROM (SELECT regexp_replace(_cpf, '\D', '', 'g') AS d) digits
+$$;
+
+-- "+5511987654321" -> "(11) *****-4321"
+CREATE OR REPLACE FUNCTION public.mask_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN length(n) < 10 THEN NULL
+    ELSE '(' || left(n, 2) || ') ' || repeat('*', length(n) - 6) || '-' || right(n, 4)
+  END
+  FROM (SELECT regexp_replace(regexp_replace(_phone, '\D', '', 'g'), '^55(\d{10,11})$', '\1') AS n) national
+$$;
+
+CREATE TABLE public.customer_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cpf_hash TEXT NOT NULL,
+  author_id UUID REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX customer_notes_cpf_hash_idx ON public.customer_notes (cpf_hash, created_at);
+
+ALTER TABLE public.customer_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read customer notes"
+ON public.customer_notes
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can add their own customer notes"
+ON public.customer_notes
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_staff(auth.uid()) AND author_id = auth.uid());
+
+-- One row per customer (anonymized feedbacks are left out). CPF and phone come back masked
+-- unless the caller is an admin, pii_masked tells the UI which one it got.
+CREATE OR REPLACE FUNCTION public.customer_directory(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  cpf_hash TEXT,
+  cpf TEXT,
+  nome TEXT,
+  telefone TEXT,
+  instagram TEXT,
+  visits BIGINT,
+  first_visit TIMESTAMP WITH TIME ZONE,
+  last_visit TIMESTAMP WITH TIME ZONE,
+  average_rating NUMERIC,
+  marketing_opt_in BOOLEAN,
+  pii_masked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visits AS (
+    SELECT
+      f.cpf,
+      count(*) AS visits,
+      min(f.created_at) AS first_visit,
+      max(f.created_at) AS last_visit,
+      avg(f.average_rating) AS average_rating
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    GROUP BY f.cpf
+  ),
+  -- Contact details from the most recent visit
+  latest AS (
+    SELECT DISTINCT ON (f.cpf) f.cpf, f.nome, f.telefone, f.instagram
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    ORDER BY f.cpf, f.created_at DESC
+  ),
+  caller AS (
+    SELECT NOT public.has_role(auth.uid(), 'admin') AS masked
+  )
+  SELECT
+    public.hash_cpf(v.cpf),
+    CASE WHEN caller.masked THEN public.mask_cpf(v.cpf) ELSE v.cpf END,
+    l.nome,
+    CASE WHEN caller.masked THEN public.mask_phone(l.telefone) ELSE l.telefone END,
+    l.instagram,
+    v.visits,
+    v.first_visit,
+    v.last_visit,
+    round(v.average_rating, 2),
+    COALESCE(c.marketing, false),
+    caller.masked
+  FROM visits v
+  JOIN latest l ON l.cpf = v.cpf
+  LEFT JOIN public.customer_marketing_consent c ON c.cpf = v.cpf
+  CROSS JOIN caller
+  WHERE public.is_staff(auth.uid())
+    AND (
+      _search IS NULL
+      OR l.nome ILIKE '%' || _search || '%'
+      OR l.instagram ILIKE '%' || _search || '%'
+      OR (length(regexp_replace(_search, '\D', '', 'g')) = 11 AND v.cpf = regexp_replace(_search, '\D', '', 'g'))
+    )
+  ORDER BY v.visits DESC, v.last_visit DESC
+$$;
+
+-- A single customer with every feedback they sent, oldest first
+CREATE OR REPLACE FUNCTION public.customer_profile(_cpf_hash TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cpf TEXT;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can read customer profiles' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT f.cpf INTO _cpf
+  FROM public.feedbacks f
+  WHERE public.hash_cpf(f.cpf) = _cpf_hash AND f.anonymized_at IS NULL
+  LIMIT 1;
+
+  IF _cpf IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'customer', (
+        SELECT to_jsonb(d) FROM public.customer_directory(_cpf) d WHERE d.cpf_hash = _cpf_hash
+      ),
+      'nps_average', (
+        SELECT round(avg(f.nps_score), 1) FROM public.feedbacks f WHERE f.cpf = _cpf
+      ),
+      'feedbacks', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', f.id,
+          'created_at', f.created_at,
+          'average_rating', f.average_rating,
+          'nps_score', f.nps_score,
+          'ratings', f.ratings,
+          'comentario', f.comentario,
+          'table_number', f.table_number,
+          'area', f.area,
+          'status', f.status
+        ) ORDER BY f.created_at)
+        FROM public.feedback_list f
+        WHERE f.cpf = _cpf
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- Recreated so cards in the panel can link to the customer's profile
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.*,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason,
+  public.hash_cpf(f.cpf) AS cpf_hash
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
+
+-- Customer notes are personal data: exported with the rest and deleted on erasure
+CREATE OR REPLACE FUNCTION public.export_customer_data(_cpf TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _result JSONB;
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export customer data' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO _count FROM public.feedbacks WHERE cpf = _digits;
+
+  SELECT jsonb_build_object(
+    'cpf', _digits,
+    'generated_at', now(),
+    'feedbacks', COALESCE((
+      SELECT jsonb_agg(
+        (to_jsonb(f) - 'search_vector') || jsonb_build_object('ratings', public.feedback_ratings_json(f.id))
+        ORDER BY f.created_at
+      )
+      FROM public.feedbacks f
+      WHERE f.cpf = _digits
+    ), '[]'::jsonb),
+    'consents', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) ORDER BY c.consented_at)
+      FROM public.consents c
+      WHERE c.cpf = _digits
+    ), '[]'::jsonb),
+    'notes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('feedback_id', n.feedback_id, 'body', n.body, 'created_at', n.created_at) ORDER BY n.created_at)
+      FROM public.feedback_notes n
+      JOIN public.feedbacks f ON f.id = n.feedback_id
+      WHERE f.cpf = _digits
+    ), '[]'::jsonb),
+    'customer_notes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('body', n.body, 'created_at', n.created_at) ORDER BY n.created_at)
+      FROM public.customer_notes n
+      WHERE n.cpf_hash = public.hash_cpf(_digits)
+    ), '[]'::jsonb)
+  ) INTO _result;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('export', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.erase_customer_data(_cpf TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(_cpf, '\D', '', 'g');
+  _count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can erase customer data' USING ERRCODE = '42501';
+  END IF;
+
+  -- Consents stay as proof of what was agreed, unlinked from the person
+  UPDATE public.consents
+  SET cpf = 'anon-' || feedback_id::TEXT,
+      user_agent = NULL
+  WHERE cpf = _digits;
+
+  UPDATE public.feedback_notes n
+  SET body = '[removido a pedido do titular]'
+  FROM public.feedbacks f
+  WHERE f.id = n.feedback_id AND f.cpf = _digits;
+
+  DELETE FROM public.customer_notes WHERE cpf_hash = public.hash_cpf(_digits);
+
+  UPDATE public.feedbacks
+  SET nome = 'Titular anonimizado',
+      cpf = 'anon-' || id::TEXT,
+      telefone = '',
+      instagram = NULL,
+      anonymized_at = now()
+  WHERE cpf = _digits;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  INSERT INTO public.data_subject_requests (request_type, cpf_hash, affected_rows, requested_by)
+  VALUES ('erase', public.hash_cpf(_digits), _count, auth.uid());
+
+  RETURN _count;
+END;
+$$;
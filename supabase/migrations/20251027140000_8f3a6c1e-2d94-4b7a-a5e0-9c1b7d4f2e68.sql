@@ -0,0 +1,152 @@
+-- PII policy: CPF and phone are masked wherever the panel reads them. Managers and admins can
+-- reveal them for specific feedbacks through reveal_feedback_contacts, and every reveal is logged.
+
+CREATE OR REPLACE FUNCTION public.can_reveal_pii(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'manager')
+$$;
+
+CREATE TABLE public.pii_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid(),
+  -- 'view' is a reveal on screen, 'export' a full export
+  purpose TEXT NOT NULL CHECK (purpose IN ('view', 'export')),
+  feedback_ids UUID[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX pii_access_log_created_at_idx ON public.pii_access_log (created_at DESC);
+
+ALTER TABLE public.pii_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read PII access log"
+ON public.pii_access_log
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.reveal_feedback_contacts(_feedback_ids UUID[], _purpose TEXT DEFAULT 'view')
+RETURNS TABLE (feedback_id UUID, cpf TEXT, telefone TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_reveal_pii(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers and admins can reveal personal data' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.pii_access_log (purpose, feedback_ids)
+  VALUES (_purpose, _feedback_ids);
+
+  RETURN QUERY
+  SELECT f.id, f.cpf, f.telefone
+  FROM public.feedbacks f
+  WHERE f.id = ANY (_feedback_ids) AND f.anonymized_at IS NULL;
+END;
+$$;
+
+-- Columns are listed instead of f.* so cpf and telefone can be masked.
+-- New feedbacks columns have to be added here as well.
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.id,
+  f.created_at,
+  f.nome,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_cpf(f.cpf) END AS cpf,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_phone(f.telefone) END AS telefone,
+  f.instagram,
+  f.qualidade_comida,
+  f.atendimento,
+  f.tempo_espera,
+  f.higiene_limpeza,
+  f.custo_beneficio,
+  f.ambiente_conforto,
+  f.comentario,
+  f.average_rating,
+  f.anonymized_at,
+  f.search_vector,
+  f.nps_score,
+  f.table_number,
+  f.area,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason,
+  public.hash_cpf(f.cpf) AS cpf_hash
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
+
+-- Masked for every role now, profiles reveal through reveal_feedback_contacts like the panel
+DROP FUNCTION public.customer_directory(TEXT);
+
+CREATE OR REPLACE FUNCTION public.customer_directory(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  cpf_hash TEXT,
+  cpf TEXT,
+  nome TEXT,
+  telefone TEXT,
+  instagram TEXT,
+  visits BIGINT,
+  first_visit TIMESTAMP WITH TIME ZONE,
+  last_visit TIMESTAMP WITH TIME ZONE,
+  average_rating NUMERIC,
+  marketing_opt_in BOOLEAN,
+  latest_feedback_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visits AS (
+    SELECT
+      f.cpf,
+      count(*) AS visits,
+      min(f.created_at) AS first_visit,
+      max(f.created_at) AS last_visit,
+      avg(f.average_rating) AS average_rating
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    GROUP BY f.cpf
+  ),
+  -- Contact details from the most recent visit
+  latest AS (
+    SELECT DISTINCT ON (f.cpf) f.cpf, f.id, f.nome, f.telefone, f.instagram
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    ORDER BY f.cpf, f.created_at DESC
+  )
+  SELECT
+    public.hash_cpf(v.cpf),
+    public.mask_cpf(v.cpf),
+    l.nome,
+    public.mask_phone(l.telefone),
+    l.instagram,
+    v.visits,
+    v.first_visit,
+    v.last_visit,
+    round(v.average_rating, 2),
+    COALESCE(c.marketing, false),
+    l.id
+  FROM visits v
+  JOIN latest l ON l.cpf = v.cpf
+  LEFT JOIN public.customer_marketing_consent c ON c.cpf = v.cpf
+  WHERE public.is_staff(auth.uid())
+    AND (
+      _search IS NULL
+      OR l.nome ILIKE '%' || _search || '%'
+      OR l.instagram ILIKE '%' || _search || '%'
+      OR (length(regexp_replace(_search, '\D', '', 'g')) = 11 AND v.cpf = regexp_replace(_search, '\D', '', 'g'))
+    )
+  ORDER BY v.visits DESC, v.last_visit DESC
+$$;
@@ -0,0 +1,243 @@
+-- Audit trail of what the team does in the panel. Database changes are captured by triggers,
+-- actions that only happen in the browser (e.g. CSV exports) are reported via log_audit_event.
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  -- Kept so the entry still says who it was after the account is removed
+  actor_email TEXT,
+  -- "<table>.<insert|update|delete>" for triggers, see log_audit_event for the app actions
+  action TEXT NOT NULL,
+  -- No foreign keys: entries must outlive the feedback or customer they mention
+  feedback_id UUID,
+  cpf_hash TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX audit_log_action_idx ON public.audit_log (action);
+CREATE INDEX audit_log_actor_id_idx ON public.audit_log (actor_id);
+CREATE INDEX audit_log_feedback_id_idx ON public.audit_log (feedback_id);
+
+-- Append only: no insert, update or delete policies
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- IP and user agent come from the headers PostgREST exposes for the current request,
+-- they are NULL for changes made outside the API (migrations, SQL editor).
+CREATE OR REPLACE FUNCTION public.write_audit_log(_action TEXT, _feedback_id UUID, _cpf_hash TEXT, _details JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _headers JSON := NULLIF(current_setting('request.headers', true), '')::JSON;
+BEGIN
+  INSERT INTO public.audit_log (actor_id, actor_email, action, feedback_id, cpf_hash, details, ip_address, user_agent)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    _action,
+    _feedback_id,
+    _cpf_hash,
+    COALESCE(_details, '{}'::jsonb),
+    NULLIF(trim(split_part(COALESCE(_headers ->> 'x-forwarded-for', _headers ->> 'x-real-ip', ''), ',', 1)), ''),
+    _headers ->> 'user-agent'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.write_audit_log(TEXT, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Generic row trigger. Arguments name columns to leave out of the details, so note bodies and
+-- personal data are not copied into a table that LGPD erasure doesn't touch.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _row JSONB := COALESCE(_new, _old);
+  _excluded TEXT[] := COALESCE(TG_ARGV, '{}');
+  _details JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('old', _old -> key, 'new', value)), '{}'::jsonb)
+    INTO _details
+    FROM jsonb_each(_new)
+    WHERE _old -> key IS DISTINCT FROM value AND NOT key = ANY (_excluded);
+
+    IF _details = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    _details := _row - _excluded;
+  END IF;
+
+  PERFORM public.write_audit_log(
+    TG_TABLE_NAME || '.' || lower(TG_OP),
+    CASE WHEN TG_TABLE_NAME = 'feedbacks' THEN (_row ->> 'id')::UUID ELSE (_row ->> 'feedback_id')::UUID END,
+    COALESCE(
+      _row ->> 'cpf_hash',
+      CASE WHEN TG_TABLE_NAME = 'feedbacks' AND _old IS NOT NULL THEN public.hash_cpf(_old ->> 'cpf') END
+    ),
+    _details
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- average_rating is rewritten by refresh_feedback_average on every submission, it is not an edit
+CREATE TRIGGER feedbacks_audit
+AFTER UPDATE OR DELETE ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('nome', 'cpf', 'telefone', 'instagram', 'comentario', 'search_vector', 'average_rating');
+
+CREATE TRIGGER feedback_cases_audit
+AFTER UPDATE ON public.feedback_cases
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('updated_at', 'updated_by');
+
+CREATE TRIGGER feedback_notes_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.feedback_notes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('body');
+
+CREATE TRIGGER customer_notes_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.customer_notes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('body');
+
+CREATE TRIGGER data_subject_requests_audit
+AFTER INSERT ON public.data_subject_requests
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER user_roles_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER rating_criteria_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.rating_criteria
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER dining_tables_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.dining_tables
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER alert_rules_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.alert_rules
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER alert_settings_audit
+AFTER UPDATE ON public.alert_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('updated_at');
+
+-- Only PIN changes, not the failed attempt counter verify_kiosk_pin keeps updating
+CREATE TRIGGER kiosk_settings_audit
+AFTER INSERT OR UPDATE OF pin_hash ON public.kiosk_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('pin_hash', 'pin_salt', 'failed_attempts', 'locked_until');
+
+-- For actions that never reach the database as a write
+CREATE OR REPLACE FUNCTION public.log_audit_event(
+  _action TEXT,
+  _details JSONB DEFAULT '{}'::jsonb,
+  _feedback_id UUID DEFAULT NULL,
+  _cpf_hash TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can write to the audit log' USING ERRCODE = '42501';
+  END IF;
+
+  -- Trigger actions can't be forged from the browser
+  IF _action NOT IN ('feedbacks.export', 'customer_profile.view') THEN
+    RAISE EXCEPTION 'Unknown audit action %', _action USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.write_audit_log(_action, _feedback_id, _cpf_hash, _details);
+END;
+$$;
+
+-- PII reveals move from pii_access_log into the audit log, one entry per feedback
+CREATE OR REPLACE FUNCTION public.reveal_feedback_contacts(_feedback_ids UUID[], _purpose TEXT DEFAULT 'view')
+RETURNS TABLE (feedback_id UUID, cpf TEXT, telefone TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_reveal_pii(auth.uid()) THEN
+    RAISE EXCEPTION 'Only managers and admins can reveal personal data' USING ERRCODE = '42501';
+  END IF;
+
+  IF _purpose NOT IN ('view', 'export') THEN
+    RAISE EXCEPTION 'Unknown purpose %', _purpose USING ERRCODE = '22023';
+  END IF;
+
+  IF _purpose = 'view' THEN
+    PERFORM public.write_audit_log('pii.reveal', f.id, public.hash_cpf(f.cpf), '{}'::jsonb)
+    FROM public.feedbacks f
+    WHERE f.id = ANY (_feedback_ids);
+  ELSE
+    -- A full export reveals the whole period at once, one entry is enough
+    PERFORM public.write_audit_log('pii.export', NULL, NULL, jsonb_build_object('feedbacks', cardinality(_feedback_ids)));
+  END IF;
+
+  RETURN QUERY
+  SELECT f.id, f.cpf, f.telefone
+  FROM public.feedbacks f
+  WHERE f.id = ANY (_feedback_ids) AND f.anonymized_at IS NULL;
+END;
+$$;
+
+-- A reveal could cover several feedbacks, each becomes its own entry like reveal_feedback_contacts
+-- writes them now
+INSERT INTO public.audit_log (actor_id, actor_email, action, feedback_id, cpf_hash, details, created_at)
+SELECT l.user_id, u.email, 'pii.reveal', r.feedback_id, public.hash_cpf(f.cpf), '{}'::jsonb, l.created_at
+FROM public.pii_access_log l
+CROSS JOIN LATERAL unnest(l.feedback_ids) AS r (feedback_id)
+LEFT JOIN public.feedbacks f ON f.id = r.feedback_id
+LEFT JOIN auth.users u ON u.id = l.user_id
+WHERE l.purpose = 'view';
+
+-- Exports keep their ids in details, the old log is the only other place that has them
+INSERT INTO public.audit_log (actor_id, actor_email, action, feedback_id, cpf_hash, details, created_at)
+SELECT
+  l.user_id,
+  u.email,
+  'pii.export',
+  NULL,
+  NULL,
+  jsonb_build_object('feedbacks', cardinality(l.feedback_ids), 'feedback_ids', to_jsonb(l.feedback_ids)),
+  l.created_at
+FROM public.pii_access_log l
+LEFT JOIN auth.users u ON u.id = l.user_id
+WHERE l.purpose = 'export';
+
+DROP TABLE public.pii_access_log;
+
+-- Distinct values for the filters on the audit screen
+CREATE OR REPLACE FUNCTION public.audit_log_actions()
+RETURNS TABLE (action TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT a.action
+  FROM public.audit_log a
+  WHERE public.has_role(auth.uid(), 'admin')
+  ORDER BY a.action
+$$;
@@ -0,0 +1,176 @@
+-- Historical feedback (paper and Google Forms surveys) imported from CSV by admins. Every
+-- imported row carries the id of its import so a whole import can be undone at once.
+CREATE TABLE public.feedback_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Added up by import_feedbacks as the batches arrive
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_by UUID REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.feedback_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read feedback imports"
+ON public.feedback_imports
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can start feedback imports"
+ON public.feedback_imports
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.feedbacks
+ADD COLUMN import_id UUID REFERENCES public.feedback_imports (id) ON DELETE SET NULL;
+
+CREATE INDEX feedbacks_import_id_idx ON public.feedbacks (import_id);
+
+-- Imported feedbacks are history: their cases start resolved instead of flooding "Negativas em Aberto"
+CREATE OR REPLACE FUNCTION public.open_feedback_case()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.import_id IS NULL THEN
+    INSERT INTO public.feedback_cases (feedback_id) VALUES (NEW.id) ON CONFLICT DO NOTHING;
+  ELSE
+    INSERT INTO public.feedback_cases (feedback_id, status, resolution_reason)
+    VALUES (NEW.id, 'resolvido', 'Importada do histórico')
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER feedback_imports_audit
+AFTER INSERT OR UPDATE OF rolled_back_at ON public.feedback_imports
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('created_by', 'rolled_back_by');
+
+-- Same customer on the same day (São Paulo time) is taken as the same visit
+CREATE OR REPLACE FUNCTION public.feedback_visit_exists(_cpf TEXT, _created_at TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.feedbacks f
+    WHERE f.cpf = _cpf
+      AND (f.created_at AT TIME ZONE 'America/Sao_Paulo')::DATE = (_created_at AT TIME ZONE 'America/Sao_Paulo')::DATE
+  )
+$$;
+
+-- Positions (0-based) of the rows that already exist, for the wizard's preview.
+-- Rows are {cpf, created_at}, the same objects later sent to import_feedbacks.
+CREATE OR REPLACE FUNCTION public.feedback_import_duplicates(_rows JSONB)
+RETURNS SETOF INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (r.position - 1)::INTEGER
+  FROM jsonb_array_elements(_rows) WITH ORDINALITY AS r(item, position)
+  WHERE public.has_role(auth.uid(), 'admin')
+    AND public.feedback_visit_exists(r.item ->> 'cpf', (r.item ->> 'created_at')::TIMESTAMP WITH TIME ZONE)
+  ORDER BY r.position
+$$;
+
+-- One batch of an import. Rows are {nome, cpf, telefone, instagram, comentario, created_at,
+-- nps_score, table_number, ratings: {criterion key: 1-5}} already validated and normalized by
+-- the wizard, the table constraints still apply. Duplicates are skipped, not errors, so a batch
+-- that is sent twice doesn't insert anything the second time.
+CREATE OR REPLACE FUNCTION public.import_feedbacks(_import_id UUID, _rows JSONB)
+RETURNS TABLE (imported INTEGER, skipped INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _feedback_id UUID;
+  _imported INTEGER := 0;
+  _skipped INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import feedback' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.feedback_imports WHERE id = _import_id AND rolled_back_at IS NULL) THEN
+    RAISE EXCEPTION 'Import % does not exist or was undone', _import_id USING ERRCODE = '22023';
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_rows) LOOP
+    IF public.feedback_visit_exists(_item ->> 'cpf', (_item ->> 'created_at')::TIMESTAMP WITH TIME ZONE) THEN
+      _skipped := _skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.feedbacks (nome, cpf, telefone, instagram, comentario, created_at, nps_score, table_number, import_id)
+    VALUES (
+      _item ->> 'nome',
+      _item ->> 'cpf',
+      _item ->> 'telefone',
+      NULLIF(_item ->> 'instagram', ''),
+      NULLIF(_item ->> 'comentario', ''),
+      (_item ->> 'created_at')::TIMESTAMP WITH TIME ZONE,
+      (_item ->> 'nps_score')::SMALLINT,
+      (_item ->> 'table_number')::SMALLINT,
+      _import_id
+    )
+    RETURNING id INTO _feedback_id;
+
+    INSERT INTO public.feedback_ratings (feedback_id, criterion_id, rating)
+    SELECT _feedback_id, c.id, (r.value #>> '{}')::SMALLINT
+    FROM jsonb_each(_item -> 'ratings') AS r
+    JOIN public.rating_criteria c ON c.key = r.key;
+
+    _imported := _imported + 1;
+  END LOOP;
+
+  UPDATE public.feedback_imports
+  SET imported_count = imported_count + _imported,
+      skipped_count = skipped_count + _skipped
+  WHERE id = _import_id;
+
+  RETURN QUERY SELECT _imported, _skipped;
+END;
+$$;
+
+-- Deletes every feedback of the import (ratings, cases and notes cascade) and keeps the import
+-- itself, marked as undone, for the history. Returns how many feedbacks were removed.
+CREATE OR REPLACE FUNCTION public.rollback_feedback_import(_import_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can undo imports' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.feedback_imports
+  SET rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = _import_id AND rolled_back_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import % does not exist or was already undone', _import_id USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.feedbacks WHERE import_id = _import_id;
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$$;
@@ -0,0 +1,388 @@
+-- Comment sentiment and topics, worked out in Postgres from a Portuguese lexicon tuned to the
+-- house (kitchen, bar, the sebo, live music). Runs on every insert path (form, kiosk, import)
+-- and no comment text is sent anywhere else.
+CREATE TYPE public.comment_sentiment AS ENUM ('positivo', 'neutro', 'negativo');
+CREATE TYPE public.comment_topic AS ENUM ('comida', 'drinks', 'livros', 'musica', 'fila', 'preco', 'atendimento', 'ambiente', 'limpeza');
+
+CREATE TABLE public.comment_lexicon (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Regular expression for one whole word, lowercase and without accents, e.g. 'otim[oa]s?'
+  pattern TEXT NOT NULL UNIQUE,
+  -- -2 to 2, 0 for words that only say what the comment is about
+  polarity SMALLINT NOT NULL DEFAULT 0 CHECK (polarity BETWEEN -2 AND 2),
+  topic public.comment_topic,
+  CHECK (polarity <> 0 OR topic IS NOT NULL)
+);
+
+ALTER TABLE public.comment_lexicon ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read the comment lexicon"
+ON public.comment_lexicon
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+INSERT INTO public.comment_lexicon (pattern, polarity, topic) VALUES
+  -- comida
+  ('comidas?', 0, 'comida'),
+  ('pratos?', 0, 'comida'),
+  ('porca?o|porcoes', 0, 'comida'),
+  ('petiscos?', 0, 'comida'),
+  ('lanches?', 0, 'comida'),
+  ('hamburguer(es)?|burgers?', 0, 'comida'),
+  ('pizzas?', 0, 'comida'),
+  ('sobremesas?', 0, 'comida'),
+  ('cardapio', 0, 'comida'),
+  ('tempero', 0, 'comida'),
+  ('sabor(es)?', 0, 'comida'),
+  ('massas?', 0, 'comida'),
+  ('carnes?', 0, 'comida'),
+  ('frango', 0, 'comida'),
+  ('batatas?', 0, 'comida'),
+  ('cozinha', 0, 'comida'),
+  ('refeica?o', 0, 'comida'),
+  ('almoco|jantar', 0, 'comida'),
+  ('delicios[oa]s?', 2, 'comida'),
+  ('saboros[oa]s?|gostos[oa]s?', 1, 'comida'),
+  ('temperad[oa]s?', 1, 'comida'),
+  ('insoss[oa]s?', -1, 'comida'),
+  ('salgad[oa]s?', -1, 'comida'),
+  ('queimad[oa]s?', -1, 'comida'),
+  -- drinks
+  ('drinks?|drinques?', 0, 'drinks'),
+  ('bebidas?', 0, 'drinks'),
+  ('cervejas?', 0, 'drinks'),
+  ('chopps?|chopes?', 0, 'drinks'),
+  ('vinhos?', 0, 'drinks'),
+  ('coquetel|coqueteis', 0, 'drinks'),
+  ('caipirinhas?', 0, 'drinks'),
+  ('gin|whisky|vodka|cachaca', 0, 'drinks'),
+  ('sucos?', 0, 'drinks'),
+  ('cafes?', 0, 'drinks'),
+  ('refrigerantes?', 0, 'drinks'),
+  ('bar|barman|bartender', 0, 'drinks'),
+  ('geladas?|gelados?', 1, 'drinks'),
+  -- livros
+  ('livros?', 0, 'livros'),
+  ('livraria', 0, 'livros'),
+  ('sebo', 0, 'livros'),
+  ('leitura|ler|lendo', 0, 'livros'),
+  ('estantes?', 0, 'livros'),
+  ('autor(es|a|as)?', 0, 'livros'),
+  ('literatura', 0, 'livros'),
+  ('acervo', 0, 'livros'),
+  -- musica
+  ('musicas?', 0, 'musica'),
+  ('som', 0, 'musica'),
+  ('bandas?', 0, 'musica'),
+  ('shows?', 0, 'musica'),
+  ('playlist|dj', 0, 'musica'),
+  ('cantor(a|es|as)?', 0, 'musica'),
+  ('violao|jazz|samba|mpb|acustic[oa]', 0, 'musica'),
+  ('volume', 0, 'musica'),
+  -- fila
+  ('filas?', 0, 'fila'),
+  ('espera|esperar|esperei|esperamos', 0, 'fila'),
+  ('reservas?', 0, 'fila'),
+  ('demor\w*', -1, 'fila'),
+  ('lotad[oa]s?', -1, 'fila'),
+  ('rapid[oa]s?|rapidez', 1, 'fila'),
+  ('lent[oa]s?|lentidao', -1, 'fila'),
+  -- preco
+  ('precos?', 0, 'preco'),
+  ('valor(es)?', 0, 'preco'),
+  ('custo|beneficio', 0, 'preco'),
+  ('promoca?o|promocoes', 0, 'preco'),
+  ('pagar|paguei|pagamos', 0, 'preco'),
+  ('taxa|gorjeta|couvert', 0, 'preco'),
+  ('caros?|carissim[oa]s?', -1, 'preco'),
+  ('cobr\w*', -1, 'preco'),
+  ('barat[oa]s?|justo|justos', 1, 'preco'),
+  -- atendimento
+  ('atendimento|atendid[oa]s?', 0, 'atendimento'),
+  ('atendentes?', 0, 'atendimento'),
+  ('garcom|garcons|garconetes?', 0, 'atendimento'),
+  ('equipe|funcionari[oa]s?|pessoal', 0, 'atendimento'),
+  ('servico', 0, 'atendimento'),
+  ('atencios[oa]s?', 2, 'atendimento'),
+  ('simpatic[oa]s?|gentil|gentis|cordia(l|is)', 2, 'atendimento'),
+  ('educad[oa]s?|prestativ[oa]s?|solicit[oa]s?', 1, 'atendimento'),
+  ('grosseir[oa]s?|grossos?|grossas?|arrogantes?|rude', -2, 'atendimento'),
+  ('ignorad[oa]s?|ignoraram', -1, 'atendimento'),
+  ('esquec\w*', -1, 'atendimento'),
+  ('desatent[oa]s?', -1, 'atendimento'),
+  -- ambiente
+  ('ambiente|lugar|espaco', 0, 'ambiente'),
+  ('decoracao|iluminacao|clima', 0, 'ambiente'),
+  ('varanda|salao', 0, 'ambiente'),
+  ('cadeiras?|sofas?', 0, 'ambiente'),
+  ('aconchegantes?|charmos[oa]s?', 2, 'ambiente'),
+  ('confortave(l|is)|agradave(l|is)|tranquil[oa]s?', 1, 'ambiente'),
+  ('desconfortave(l|is)', -1, 'ambiente'),
+  ('barulh\w*', -1, 'ambiente'),
+  ('calor|abafad[oa]s?', -1, 'ambiente'),
+  -- limpeza
+  ('limpeza|higiene', 0, 'limpeza'),
+  ('banheiros?', 0, 'limpeza'),
+  ('cheiro', 0, 'limpeza'),
+  ('limp[oa]s?', 1, 'limpeza'),
+  ('suj[oa]s?|sujeira', -2, 'limpeza'),
+  ('nojent[oa]s?|moscas?|baratas', -2, 'limpeza'),
+  -- No topic
+  ('otim[oa]s?|excelentes?|maravilhos[oa]s?|perfeit[oa]s?', 2, NULL),
+  ('incrive(l|is)|sensaciona(l|is)|espetacular(es)?|fantastic[oa]s?|impecave(l|is)', 2, NULL),
+  ('amei|adorei|amamos|adoramos|recomendo', 2, NULL),
+  ('bom|bons|boa|boas|legal|legais|bacanas?|gostei|gostamos', 1, NULL),
+  ('lind[oa]s?|melhor(es)?|top|parabens|satisfeit[oa]s?|voltarei|voltaremos', 1, NULL),
+  ('ruim|ruins|pessim[oa]s?|horrive(l|is)|terrive(l|is)|pior(es)?', -2, NULL),
+  ('decepca?o|decepcion\w*|insatisfeit[oa]s?|lamentave(l|is)', -2, NULL),
+  ('frac[oa]s?|medianos?|problemas?|reclama\w*|errad[oa]s?|desorganiza\w*', -1, NULL);
+
+-- The letters Portuguese puts accents on, enough for matching typed comments
+CREATE OR REPLACE FUNCTION public.unaccent_pt(_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT translate(_text, 'áàâãäéèêëíìîïóòôõöúùûüç', 'aaaaaeeeeiiiiooooouuuuc')
+$$;
+
+-- Lowercase words in order, accents kept
+CREATE OR REPLACE FUNCTION public.comment_words(_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(w.word ORDER BY w.position), '{}')
+  FROM regexp_split_to_table(lower(COALESCE(_text, '')), '[^a-zà-öø-ÿ0-9]+') WITH ORDINALITY AS w(word, position)
+  WHERE w.word <> ''
+$$;
+
+-- Adds up the polarity of the lexicon words, flipped after a negation ("não estava bom") and
+-- boosted by an intensifier ("muito bom", "caro demais"), each clause on its own. The sum is
+-- squashed into -1..1 so long comments don't score higher just for being long.
+-- Security definer because the public form inserts as anon, which can't read the lexicon.
+CREATE OR REPLACE FUNCTION public.analyze_comment(
+  _comentario TEXT,
+  OUT sentiment_score NUMERIC,
+  OUT sentiment public.comment_sentiment,
+  OUT topics public.comment_topic[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _clause TEXT;
+  _words TEXT[];
+  _entry RECORD;
+  _weight NUMERIC;
+  _raw NUMERIC := 0;
+  _negations CONSTANT TEXT[] := ARRAY['nao', 'nem', 'nunca', 'jamais', 'sem', 'nada', 'mal'];
+  _intensifiers CONSTANT TEXT[] := ARRAY['muito', 'muita', 'muitos', 'muitas', 'super', 'bem', 'bastante', 'extremamente', 'mega', 'tao', 'totalmente', 'realmente'];
+BEGIN
+  topics := '{}';
+  IF COALESCE(btrim(_comentario), '') = '' THEN
+    RETURN;
+  END IF;
+
+  FOR _clause IN SELECT c FROM regexp_split_to_table(_comentario, '[.,;:!?()\n]+') AS c LOOP
+    _words := (SELECT COALESCE(array_agg(public.unaccent_pt(w.word) ORDER BY w.position), '{}')
+               FROM unnest(public.comment_words(_clause)) WITH ORDINALITY AS w(word, position));
+
+    FOR _i IN 1 .. COALESCE(array_length(_words, 1), 0) LOOP
+      FOR _entry IN
+        SELECT l.polarity, l.topic FROM public.comment_lexicon l WHERE _words[_i] ~ ('^(' || l.pattern || ')$')
+      LOOP
+        IF _entry.topic IS NOT NULL AND NOT _entry.topic = ANY (topics) THEN
+          topics := topics || _entry.topic;
+        END IF;
+
+        IF _entry.polarity <> 0 THEN
+          _weight := _entry.polarity;
+          IF _words[_i - 1] = ANY (_intensifiers) OR _words[_i + 1] = 'demais' THEN
+            _weight := _weight * 1.5;
+          END IF;
+          IF _words[GREATEST(_i - 3, 1):_i - 1] && _negations THEN
+            _weight := -_weight;
+          END IF;
+          _raw := _raw + _weight;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  sentiment_score := round(_raw / sqrt(_raw * _raw + 4), 2);
+  sentiment := CASE
+    WHEN sentiment_score >= 0.2 THEN 'positivo'
+    WHEN sentiment_score <= -0.2 THEN 'negativo'
+    ELSE 'neutro'
+  END;
+END;
+$$;
+
+-- A happy comment under low stars or a complaint under high stars: someone may have misread the
+-- scale, or the problem is in the text only
+CREATE OR REPLACE FUNCTION public.comment_contradicts_rating(_sentiment public.comment_sentiment, _average_rating NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE((_sentiment = 'positivo' AND _average_rating <= 2) OR (_sentiment = 'negativo' AND _average_rating >= 4), false)
+$$;
+
+ALTER TABLE public.feedbacks
+ADD COLUMN comment_sentiment public.comment_sentiment,
+ADD COLUMN comment_sentiment_score NUMERIC(3, 2),
+ADD COLUMN comment_topics public.comment_topic[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX feedbacks_comment_sentiment_idx ON public.feedbacks (comment_sentiment);
+CREATE INDEX feedbacks_comment_topics_idx ON public.feedbacks USING GIN (comment_topics);
+
+CREATE OR REPLACE FUNCTION public.set_comment_analysis()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT a.sentiment_score, a.sentiment, a.topics
+  INTO NEW.comment_sentiment_score, NEW.comment_sentiment, NEW.comment_topics
+  FROM public.analyze_comment(NEW.comentario) a;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER feedbacks_set_comment_analysis
+BEFORE INSERT OR UPDATE OF comentario ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.set_comment_analysis();
+
+-- Derived from comentario, which is already left out
+DROP TRIGGER feedbacks_audit ON public.feedbacks;
+CREATE TRIGGER feedbacks_audit
+AFTER UPDATE OR DELETE ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change(
+  'nome', 'cpf', 'telefone', 'instagram', 'comentario', 'search_vector', 'average_rating',
+  'comment_sentiment', 'comment_sentiment_score', 'comment_topics'
+);
+
+-- Existing comments, through the trigger
+UPDATE public.feedbacks SET comentario = comentario WHERE comentario IS NOT NULL;
+
+-- New feedbacks columns have to be listed here, see 20251027140000
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.id,
+  f.created_at,
+  f.nome,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_cpf(f.cpf) END AS cpf,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_phone(f.telefone) END AS telefone,
+  f.instagram,
+  f.qualidade_comida,
+  f.atendimento,
+  f.tempo_espera,
+  f.higiene_limpeza,
+  f.custo_beneficio,
+  f.ambiente_conforto,
+  f.comentario,
+  f.average_rating,
+  f.anonymized_at,
+  f.search_vector,
+  f.nps_score,
+  f.table_number,
+  f.area,
+  f.comment_sentiment,
+  f.comment_sentiment_score,
+  f.comment_topics,
+  public.comment_contradicts_rating(f.comment_sentiment, f.average_rating) AS sentiment_mismatch,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason,
+  public.hash_cpf(f.cpf) AS cpf_hash
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
+
+-- Comments per sentiment, with how many of them disagree with their stars
+CREATE OR REPLACE FUNCTION public.feedback_comment_sentiment(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  sentiment public.comment_sentiment,
+  volume BIGINT,
+  overall_average NUMERIC,
+  mismatched BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    f.comment_sentiment,
+    count(*),
+    round(avg(f.average_rating), 2),
+    count(*) FILTER (WHERE public.comment_contradicts_rating(f.comment_sentiment, f.average_rating))
+  FROM public.feedbacks_in_period(_from, _to) f
+  WHERE f.comment_sentiment IS NOT NULL
+  GROUP BY f.comment_sentiment
+  ORDER BY f.comment_sentiment
+$$;
+
+CREATE OR REPLACE FUNCTION public.feedback_comment_topics(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  topic public.comment_topic,
+  mentions BIGINT,
+  positive BIGINT,
+  negative BIGINT,
+  overall_average NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.topic,
+    count(*),
+    count(*) FILTER (WHERE f.comment_sentiment = 'positivo'),
+    count(*) FILTER (WHERE f.comment_sentiment = 'negativo'),
+    round(avg(f.average_rating), 2)
+  FROM public.feedbacks_in_period(_from, _to) f
+  CROSS JOIN LATERAL unnest(f.comment_topics) AS t(topic)
+  GROUP BY t.topic
+  ORDER BY count(*) DESC, t.topic
+$$;
+
+-- Most used words, skipping Portuguese stop words ("de", "não", "muito"...). Spellings with and
+-- without accents count together and show as the most common one.
+CREATE OR REPLACE FUNCTION public.comment_word_frequency(
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _sentiment public.comment_sentiment DEFAULT NULL,
+  _limit INTEGER DEFAULT 40
+)
+RETURNS TABLE (
+  word TEXT,
+  occurrences BIGINT,
+  feedbacks BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    mode() WITHIN GROUP (ORDER BY w.word),
+    count(*),
+    count(DISTINCT f.id)
+  FROM public.feedbacks_in_period(_from, _to) f
+  CROSS JOIN LATERAL unnest(public.comment_words(f.comentario)) AS w(word)
+  WHERE f.comentario IS NOT NULL
+    AND (_sentiment IS NULL OR f.comment_sentiment = _sentiment)
+    AND length(w.word) > 2
+    AND w.word !~ '^[0-9]+$'
+    AND ts_lexize('portuguese_stem', w.word) <> '{}'
+  GROUP BY public.unaccent_pt(w.word)
+  ORDER BY count(*) DESC, 1
+  LIMIT _limit
+$$;
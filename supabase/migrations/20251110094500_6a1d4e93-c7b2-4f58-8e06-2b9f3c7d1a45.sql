@@ -0,0 +1,145 @@
+-- Labels the team puts on feedbacks by hand ("cozinha", "evento", "reclamação de preço"), on
+-- top of the topics analyze_comment finds on its own. Managers and admins keep the list of
+-- tags, anyone on staff can tag, like they can follow up a case.
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 40),
+  -- "#RRGGBB", used as the badge background
+  color TEXT NOT NULL DEFAULT '#A72026' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX tags_name_key ON public.tags (lower(btrim(name)));
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read tags"
+ON public.tags
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Managers can create tags"
+ON public.tags
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Managers can update tags"
+ON public.tags
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Managers can delete tags"
+ON public.tags
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE TABLE public.feedback_tags (
+  feedback_id UUID NOT NULL REFERENCES public.feedbacks (id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags (id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (feedback_id, tag_id)
+);
+
+CREATE INDEX feedback_tags_tag_id_idx ON public.feedback_tags (tag_id);
+
+ALTER TABLE public.feedback_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read feedback tags"
+ON public.feedback_tags
+FOR SELECT
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can tag feedbacks"
+ON public.feedback_tags
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can untag feedbacks"
+ON public.feedback_tags
+FOR DELETE
+TO authenticated
+USING (public.is_staff(auth.uid()));
+
+CREATE TRIGGER tags_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.tags
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER feedback_tags_audit
+AFTER INSERT OR DELETE ON public.feedback_tags
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('created_by');
+
+-- New feedbacks columns have to be listed here, see 20251027140000
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.id,
+  f.created_at,
+  f.nome,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_cpf(f.cpf) END AS cpf,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_phone(f.telefone) END AS telefone,
+  f.instagram,
+  f.qualidade_comida,
+  f.atendimento,
+  f.tempo_espera,
+  f.higiene_limpeza,
+  f.custo_beneficio,
+  f.ambiente_conforto,
+  f.comentario,
+  f.average_rating,
+  f.anonymized_at,
+  f.search_vector,
+  f.nps_score,
+  f.table_number,
+  f.area,
+  f.comment_sentiment,
+  f.comment_sentiment_score,
+  f.comment_topics,
+  public.comment_contradicts_rating(f.comment_sentiment, f.average_rating) AS sentiment_mismatch,
+  ARRAY(SELECT ft.tag_id FROM public.feedback_tags ft WHERE ft.feedback_id = f.id ORDER BY ft.created_at) AS tag_ids,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason,
+  public.hash_cpf(f.cpf) AS cpf_hash
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
+
+-- Same numbers as feedback_by_area, one row per tag used in the period
+CREATE OR REPLACE FUNCTION public.feedback_by_tag(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  tag_id UUID,
+  name TEXT,
+  color TEXT,
+  volume BIGINT,
+  overall_average NUMERIC,
+  nps_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.name,
+    t.color,
+    count(*),
+    round(avg(f.average_rating), 2),
+    round(100.0 * (count(*) FILTER (WHERE f.nps_score >= 9) - count(*) FILTER (WHERE f.nps_score <= 6))
+      / NULLIF(count(f.nps_score), 0), 1)
+  FROM public.feedbacks_in_period(_from, _to) f
+  JOIN public.feedback_tags ft ON ft.feedback_id = f.id
+  JOIN public.tags t ON t.id = ft.tag_id
+  GROUP BY t.id, t.name, t.color
+  ORDER BY count(*) DESC, t.name
+$$;
@@ -0,0 +1,50 @@
+-- A form submission (feedback, ratings and consent) is written by this single call, in one
+-- transaction, so a dropped connection can no longer leave a feedback without its ratings or
+-- consent. The offline queue replays submissions with the same id: if the feedback is already
+-- there, so is the rest of the submission and nothing is written again. created_at and
+-- consented_at always come from the server, never from the client.
+CREATE OR REPLACE FUNCTION public.submit_feedback(_feedback JSONB, _ratings JSONB, _consent JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feedback_id UUID := (_feedback ->> 'id')::UUID;
+BEGIN
+  INSERT INTO public.feedbacks (id, nome, cpf, telefone, instagram, nps_score, table_number, comentario)
+  VALUES (
+    _feedback_id,
+    _feedback ->> 'nome',
+    _feedback ->> 'cpf',
+    _feedback ->> 'telefone',
+    _feedback ->> 'instagram',
+    (_feedback ->> 'nps_score')::SMALLINT,
+    (_feedback ->> 'table_number')::SMALLINT,
+    NULLIF(_feedback ->> 'comentario', '')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.feedback_ratings (feedback_id, criterion_id, rating)
+  SELECT _feedback_id, (r.item ->> 'criterion_id')::UUID, (r.item ->> 'rating')::SMALLINT
+  FROM jsonb_array_elements(COALESCE(_ratings, '[]')) AS r(item);
+
+  -- Last, so consents_evaluate_alerts already sees the ratings and the average
+  INSERT INTO public.consents (feedback_id, cpf, policy_version, data_usage, marketing, user_agent)
+  VALUES (
+    _feedback_id,
+    _feedback ->> 'cpf',
+    _consent ->> 'policy_version',
+    (_consent ->> 'data_usage')::BOOLEAN,
+    COALESCE((_consent ->> 'marketing')::BOOLEAN, false),
+    _consent ->> 'user_agent'
+  );
+END;
+$$;
+
+DROP POLICY "Anyone can insert feedback" ON public.feedbacks;
+DROP POLICY "Anyone can record consent" ON public.consents;
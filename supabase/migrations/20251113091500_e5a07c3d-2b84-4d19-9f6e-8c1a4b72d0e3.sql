@@ -0,0 +1,3 @@
+-- Ratings are only written by submit_feedback, together with their feedback. The open insert
+-- policy let anyone add ratings to any existing feedback and skew its average.
+DROP POLICY "Anyone can insert ratings" ON public.feedback_ratings;
@@ -0,0 +1,133 @@
+-- hash_cpf was a plain sha256 of the CPF. There are only about a billion CPFs, so anyone holding
+-- a hash (data subject requests, audit log, profile URLs) could recover the CPF by trying them
+-- all. It becomes an HMAC keyed with a secret that never leaves the database.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Single row holding the key. Like kiosk_settings, RLS is on with no policies, so only the
+-- SECURITY DEFINER functions below can read it.
+CREATE TABLE public.cpf_hash_key (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cpf_hash_key ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.cpf_hash_key DEFAULT VALUES;
+
+-- Keys the old sha256 digest instead of the CPF itself, so the hashes already stored can be
+-- converted below without knowing the CPFs behind them
+CREATE OR REPLACE FUNCTION public.key_cpf_digest(_digest TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(extensions.hmac(_digest, k.secret, 'sha256'), 'hex')
+  FROM public.cpf_hash_key k
+$$;
+
+-- Reads the key, so it can no longer back an index: feedbacks gets a stored column instead
+DROP INDEX public.feedbacks_cpf_hash_idx;
+
+CREATE OR REPLACE FUNCTION public.hash_cpf(_cpf TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.key_cpf_digest(encode(sha256(convert_to(regexp_replace(_cpf, '\D', '', 'g'), 'UTF8')), 'hex'))
+$$;
+
+-- Only the database computes hashes, otherwise the functions would be an oracle for the same search
+REVOKE EXECUTE ON FUNCTION public.key_cpf_digest(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hash_cpf(TEXT) FROM PUBLIC, anon, authenticated;
+
+UPDATE public.data_subject_requests SET cpf_hash = public.key_cpf_digest(cpf_hash);
+
+-- Not a note edit, keep it out of the audit log
+ALTER TABLE public.customer_notes DISABLE TRIGGER customer_notes_audit;
+UPDATE public.customer_notes SET cpf_hash = public.key_cpf_digest(cpf_hash);
+ALTER TABLE public.customer_notes ENABLE TRIGGER customer_notes_audit;
+
+-- Inserts into customer_notes and data_subject_requests also copied the hash into details
+UPDATE public.audit_log
+SET cpf_hash = public.key_cpf_digest(cpf_hash)
+WHERE cpf_hash IS NOT NULL;
+
+UPDATE public.audit_log
+SET details = jsonb_set(details, '{cpf_hash}', to_jsonb(public.key_cpf_digest(details ->> 'cpf_hash')))
+WHERE jsonb_typeof(details -> 'cpf_hash') = 'string';
+
+-- Anonymized feedbacks no longer belong to a customer, so they have no hash
+ALTER TABLE public.feedbacks ADD COLUMN cpf_hash TEXT;
+
+CREATE OR REPLACE FUNCTION public.set_feedback_cpf_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cpf_hash := CASE WHEN NEW.anonymized_at IS NULL THEN public.hash_cpf(NEW.cpf) END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER feedbacks_set_cpf_hash
+BEFORE INSERT OR UPDATE OF cpf, anonymized_at ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.set_feedback_cpf_hash();
+
+ALTER TABLE public.feedbacks DISABLE TRIGGER feedbacks_audit;
+UPDATE public.feedbacks SET cpf_hash = public.hash_cpf(cpf) WHERE anonymized_at IS NULL;
+ALTER TABLE public.feedbacks ENABLE TRIGGER feedbacks_audit;
+
+CREATE INDEX feedbacks_cpf_hash_idx ON public.feedbacks (cpf_hash);
+
+DROP TRIGGER feedbacks_audit ON public.feedbacks;
+CREATE TRIGGER feedbacks_audit
+AFTER UPDATE OR DELETE ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change(
+  'nome', 'cpf', 'telefone', 'instagram', 'comentario', 'search_vector', 'average_rating',
+  'comment_sentiment', 'comment_sentiment_score', 'comment_topics', 'cpf_hash'
+);
+
+-- hash_cpf is no longer callable by staff, the list reads the stored hash
+DROP VIEW public.feedback_list;
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.id,
+  f.created_at,
+  f.nome,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_cpf(f.cpf) END AS cpf,
+  CASE WHEN f.anonymized_at IS NULL THEN public.mask_phone(f.telefone) END AS telefone,
+  f.instagram,
+  f.qualidade_comida,
+  f.atendimento,
+  f.tempo_espera,
+  f.higiene_limpeza,
+  f.custo_beneficio,
+  f.ambiente_conforto,
+  f.comentario,
+  f.average_rating,
+  f.anonymized_at,
+  f.search_vector,
+  f.nps_score,
+  f.table_number,
+  f.area,
+  f.comment_sentiment,
+  f.comment_sentiment_score,
+  f.comment_topics,
+  public.comment_contradicts_rating(f.comment_sentiment, f.average_rating) AS sentiment_mismatch,
+  ARRAY(SELECT ft.tag_id FROM public.feedback_tags ft WHERE ft.feedback_id = f.id ORDER BY ft.created_at) AS tag_ids,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason,
+  f.cpf_hash
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf = f.cpf
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
@@ -0,0 +1,109 @@
+-- Customers are now grouped and addressed by the stored keyed hash (feedbacks.cpf_hash), so
+-- profile URLs no longer carry a value that can be reversed into the CPF.
+CREATE OR REPLACE FUNCTION public.customer_directory(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  cpf_hash TEXT,
+  cpf TEXT,
+  nome TEXT,
+  telefone TEXT,
+  instagram TEXT,
+  visits BIGINT,
+  first_visit TIMESTAMP WITH TIME ZONE,
+  last_visit TIMESTAMP WITH TIME ZONE,
+  average_rating NUMERIC,
+  marketing_opt_in BOOLEAN,
+  latest_feedback_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visits AS (
+    SELECT
+      f.cpf_hash,
+      count(*) AS visits,
+      min(f.created_at) AS first_visit,
+      max(f.created_at) AS last_visit,
+      avg(f.average_rating) AS average_rating
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    GROUP BY f.cpf_hash
+  ),
+  -- Contact details from the most recent visit
+  latest AS (
+    SELECT DISTINCT ON (f.cpf_hash) f.cpf_hash, f.cpf, f.id, f.nome, f.telefone, f.instagram
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    ORDER BY f.cpf_hash, f.created_at DESC
+  )
+  SELECT
+    v.cpf_hash,
+    public.mask_cpf(l.cpf),
+    l.nome,
+    public.mask_phone(l.telefone),
+    l.instagram,
+    v.visits,
+    v.first_visit,
+    v.last_visit,
+    round(v.average_rating, 2),
+    COALESCE(c.marketing, false),
+    l.id
+  FROM visits v
+  JOIN latest l ON l.cpf_hash = v.cpf_hash
+  LEFT JOIN public.customer_marketing_consent c ON c.cpf = l.cpf
+  WHERE public.is_staff(auth.uid())
+    AND (
+      _search IS NULL
+      OR l.nome ILIKE '%' || _search || '%'
+      OR l.instagram ILIKE '%' || _search || '%'
+      OR (length(regexp_replace(_search, '\D', '', 'g')) = 11 AND v.cpf_hash = public.hash_cpf(_search))
+    )
+  ORDER BY v.visits DESC, v.last_visit DESC
+$$;
+
+-- The feedback list used to be matched on f.cpf, which feedback_list masks since staff lost
+-- access to the raw CPF, so profiles came back without feedbacks
+CREATE OR REPLACE FUNCTION public.customer_profile(_cpf_hash TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can read customer profiles' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.feedbacks f WHERE f.cpf_hash = _cpf_hash) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'customer', (
+        SELECT to_jsonb(d) FROM public.customer_directory() d WHERE d.cpf_hash = _cpf_hash
+      ),
+      'nps_average', (
+        SELECT round(avg(f.nps_score), 1) FROM public.feedbacks f WHERE f.cpf_hash = _cpf_hash
+      ),
+      'feedbacks', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', f.id,
+          'created_at', f.created_at,
+          'average_rating', f.average_rating,
+          'nps_score', f.nps_score,
+          'ratings', f.ratings,
+          'comentario', f.comentario,
+          'table_number', f.table_number,
+          'area', f.area,
+          'status', f.status
+        ) ORDER BY f.created_at)
+        FROM public.feedback_list f
+        WHERE f.cpf_hash = _cpf_hash
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
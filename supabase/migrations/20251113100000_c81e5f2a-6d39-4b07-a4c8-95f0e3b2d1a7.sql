@@ -0,0 +1,234 @@
+-- Masking in feedback_list wasn't enough: the "Staff can read feedback" and "Staff can read
+-- consents" policies still let any staff session select the raw cpf and telefone straight from
+-- the tables. Staff now only get column grants that leave those out, so reveal_feedback_contacts
+-- (which checks the role and writes to the audit log) is the only way to the raw values.
+
+-- Masked copies for the panel, computed once per row instead of by the views
+ALTER TABLE public.feedbacks
+ADD COLUMN cpf_masked TEXT GENERATED ALWAYS AS (
+  CASE WHEN anonymized_at IS NULL THEN public.mask_cpf(cpf) END
+) STORED,
+ADD COLUMN telefone_masked TEXT GENERATED ALWAYS AS (
+  CASE WHEN anonymized_at IS NULL THEN public.mask_phone(telefone) END
+) STORED;
+
+-- Consents are matched to customers by the keyed hash, like feedbacks. Consents of erased
+-- customers keep an "anon-" placeholder and no hash.
+ALTER TABLE public.consents ADD COLUMN cpf_hash TEXT;
+
+CREATE OR REPLACE FUNCTION public.set_consent_cpf_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cpf_hash := CASE WHEN NEW.cpf NOT LIKE 'anon-%' THEN public.hash_cpf(NEW.cpf) END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consents_set_cpf_hash
+BEFORE INSERT OR UPDATE OF cpf ON public.consents
+FOR EACH ROW EXECUTE FUNCTION public.set_consent_cpf_hash();
+
+UPDATE public.consents SET cpf_hash = public.hash_cpf(cpf) WHERE cpf NOT LIKE 'anon-%';
+
+CREATE INDEX consents_cpf_hash_consented_at_idx ON public.consents (cpf_hash, consented_at DESC);
+
+-- Same exclusions as before plus the masked copies, which change when a customer is erased
+DROP TRIGGER feedbacks_audit ON public.feedbacks;
+CREATE TRIGGER feedbacks_audit
+AFTER UPDATE OR DELETE ON public.feedbacks
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change(
+  'nome', 'cpf', 'telefone', 'instagram', 'comentario', 'search_vector', 'average_rating',
+  'comment_sentiment', 'comment_sentiment_score', 'comment_topics', 'cpf_hash', 'cpf_masked', 'telefone_masked'
+);
+
+-- Every column except cpf and telefone. New feedbacks columns have to be granted here as well.
+REVOKE SELECT ON public.feedbacks FROM anon, authenticated;
+GRANT SELECT (
+  id, created_at, nome, instagram, qualidade_comida, atendimento, tempo_espera, higiene_limpeza,
+  custo_beneficio, ambiente_conforto, comentario, anonymized_at, search_vector, average_rating,
+  nps_score, table_number, area, import_id, comment_sentiment, comment_sentiment_score,
+  comment_topics, cpf_hash, cpf_masked, telefone_masked
+) ON public.feedbacks TO authenticated;
+
+REVOKE SELECT ON public.consents FROM anon, authenticated;
+GRANT SELECT (id, feedback_id, cpf_hash, policy_version, data_usage, marketing, user_agent, consented_at)
+ON public.consents TO authenticated;
+
+-- SELECT * would now hit the revoked columns. The columns follow the table order with cpf and
+-- telefone left empty, so new feedbacks columns have to be added here as well.
+CREATE OR REPLACE FUNCTION public.feedbacks_in_period(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS SETOF public.feedbacks
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    id, created_at, nome, NULL::TEXT, NULL::TEXT, instagram, qualidade_comida, atendimento,
+    tempo_espera, higiene_limpeza, custo_beneficio, ambiente_conforto, comentario, anonymized_at,
+    search_vector, average_rating, nps_score, table_number, area, import_id, comment_sentiment,
+    comment_sentiment_score, comment_topics, cpf_hash, cpf_masked, telefone_masked
+  FROM public.feedbacks
+  WHERE (_from IS NULL OR created_at >= _from)
+    AND (_to IS NULL OR created_at <= _to)
+$$;
+
+-- Recurrent customers counted by hash, erased customers no longer count as one-visit customers
+CREATE OR REPLACE FUNCTION public.feedback_summary(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  total_feedbacks BIGINT,
+  criteria_averages JSONB,
+  overall_average NUMERIC,
+  recurrent_percentage INTEGER,
+  open_negative BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT * FROM public.feedbacks_in_period(_from, _to)
+  ),
+  customers AS (
+    SELECT cpf_hash, count(*) AS visits FROM filtered WHERE cpf_hash IS NOT NULL GROUP BY cpf_hash
+  )
+  SELECT
+    (SELECT count(*) FROM filtered),
+    COALESCE((
+      SELECT jsonb_object_agg(key, average)
+      FROM (
+        SELECT c.key, avg(r.rating) AS average
+        FROM filtered f
+        JOIN public.feedback_ratings r ON r.feedback_id = f.id
+        JOIN public.rating_criteria c ON c.id = r.criterion_id
+        GROUP BY c.key
+      ) per_criterion
+    ), '{}'::jsonb),
+    (SELECT avg(average_rating) FROM filtered),
+    COALESCE((
+      SELECT round(100.0 * count(*) FILTER (WHERE visits > 1) / NULLIF(count(*), 0))::INTEGER
+      FROM customers
+    ), 0),
+    (
+      SELECT count(*)
+      FROM filtered f
+      JOIN public.feedback_cases fc ON fc.feedback_id = f.id
+      WHERE f.average_rating <= 3 AND fc.status <> 'resolvido'
+    )
+$$;
+
+DROP VIEW public.feedback_list;
+DROP VIEW public.customer_marketing_consent;
+
+CREATE VIEW public.customer_marketing_consent
+WITH (security_invoker = on) AS
+SELECT DISTINCT ON (cpf_hash)
+  cpf_hash,
+  marketing,
+  policy_version,
+  consented_at
+FROM public.consents
+WHERE cpf_hash IS NOT NULL
+ORDER BY cpf_hash, consented_at DESC;
+
+CREATE VIEW public.feedback_list
+WITH (security_invoker = on) AS
+SELECT
+  f.id,
+  f.created_at,
+  f.nome,
+  f.cpf_masked AS cpf,
+  f.telefone_masked AS telefone,
+  f.instagram,
+  f.qualidade_comida,
+  f.atendimento,
+  f.tempo_espera,
+  f.higiene_limpeza,
+  f.custo_beneficio,
+  f.ambiente_conforto,
+  f.comentario,
+  f.average_rating,
+  f.anonymized_at,
+  f.search_vector,
+  f.nps_score,
+  f.table_number,
+  f.area,
+  f.comment_sentiment,
+  f.comment_sentiment_score,
+  f.comment_topics,
+  public.comment_contradicts_rating(f.comment_sentiment, f.average_rating) AS sentiment_mismatch,
+  ARRAY(SELECT ft.tag_id FROM public.feedback_tags ft WHERE ft.feedback_id = f.id ORDER BY ft.created_at) AS tag_ids,
+  public.feedback_ratings_json(f.id) AS ratings,
+  COALESCE(c.marketing, false) AS marketing_opt_in,
+  fc.status,
+  fc.assignee_id,
+  fc.resolution_reason,
+  f.cpf_hash
+FROM public.feedbacks f
+LEFT JOIN public.customer_marketing_consent c ON c.cpf_hash = f.cpf_hash
+LEFT JOIN public.feedback_cases fc ON fc.feedback_id = f.id;
+
+-- Follows the consent view, which no longer has the CPF
+CREATE OR REPLACE FUNCTION public.customer_directory(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  cpf_hash TEXT,
+  cpf TEXT,
+  nome TEXT,
+  telefone TEXT,
+  instagram TEXT,
+  visits BIGINT,
+  first_visit TIMESTAMP WITH TIME ZONE,
+  last_visit TIMESTAMP WITH TIME ZONE,
+  average_rating NUMERIC,
+  marketing_opt_in BOOLEAN,
+  latest_feedback_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visits AS (
+    SELECT
+      f.cpf_hash,
+      count(*) AS visits,
+      min(f.created_at) AS first_visit,
+      max(f.created_at) AS last_visit,
+      avg(f.average_rating) AS average_rating
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    GROUP BY f.cpf_hash
+  ),
+  -- Contact details from the most recent visit
+  latest AS (
+    SELECT DISTINCT ON (f.cpf_hash) f.cpf_hash, f.cpf, f.id, f.nome, f.telefone, f.instagram
+    FROM public.feedbacks f
+    WHERE f.anonymized_at IS NULL
+    ORDER BY f.cpf_hash, f.created_at DESC
+  )
+  SELECT
+    v.cpf_hash,
+    public.mask_cpf(l.cpf),
+    l.nome,
+    public.mask_phone(l.telefone),
+    l.instagram,
+    v.visits,
+    v.first_visit,
+    v.last_visit,
+    round(v.average_rating, 2),
+    COALESCE(c.marketing, false),
+    l.id
+  FROM visits v
+  JOIN latest l ON l.cpf_hash = v.cpf_hash
+  LEFT JOIN public.customer_marketing_consent c ON c.cpf_hash = v.cpf_hash
+  WHERE public.is_staff(auth.uid())
+    AND (
+      _search IS NULL
+      OR l.nome ILIKE '%' || _search || '%'
+      OR l.instagram ILIKE '%' || _search || '%'
+      OR (length(regexp_replace(_search, '\D', '', 'g')) = 11 AND v.cpf_hash = public.hash_cpf(_search))
+    )
+  ORDER BY v.visits DESC, v.last_visit DESC
+$$;
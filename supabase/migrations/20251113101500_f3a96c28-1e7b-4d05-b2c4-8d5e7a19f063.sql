@@ -0,0 +1,16 @@
+-- Realtime sends whole rows to every subscribed browser, raw CPF and phone included, whatever the
+-- column grants say. The panel now listens to feedback_cases instead: every new feedback opens
+-- one and it holds no personal data, the rest is read through feedback_list.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'feedbacks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE public.feedbacks;
+  END IF;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.consents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.feedback_cases;
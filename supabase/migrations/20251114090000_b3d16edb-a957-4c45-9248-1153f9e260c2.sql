@@ -0,0 +1,5 @@
+-- deliver-alert claims an event by moving it from pending to sending before it posts anything,
+-- so when the trigger and a retry (or two retries) call it for the same event only one sends.
+ALTER TABLE public.alert_events DROP CONSTRAINT alert_events_status_check;
+ALTER TABLE public.alert_events
+ADD CONSTRAINT alert_events_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed'));
@@ -0,0 +1,110 @@
+-- analyze_comment against the lexicon seeded by the migrations. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('Comida deliciosa e atendimento excelente!')$$,
+  $$VALUES (0.89, 'positivo'::public.comment_sentiment, ARRAY['comida', 'atendimento']::public.comment_topic[])$$,
+  'praise scores positive and picks up every topic, in order'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('A comida estava fria e o garçom foi grosseiro.')$$,
+  $$VALUES (-0.71, 'negativo'::public.comment_sentiment, ARRAY['comida', 'atendimento']::public.comment_topic[])$$,
+  'complaints score negative'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('Não gostei da música')$$,
+  $$VALUES (-0.45, 'negativo'::public.comment_sentiment, ARRAY['musica']::public.comment_topic[])$$,
+  'a negation before a positive word flips it'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment FROM public.analyze_comment('Não foi ruim')$$,
+  $$VALUES (0.71, 'positivo'::public.comment_sentiment)$$,
+  'a negation before a negative word flips it too'
+);
+
+SELECT results_eq(
+  $$SELECT (public.analyze_comment('Bom')).sentiment_score, (public.analyze_comment('Muito bom')).sentiment_score$$,
+  $$VALUES (0.45, 0.60)$$,
+  'an intensifier before the word weighs it more'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('Caro demais')$$,
+  $$VALUES (-0.60, 'negativo'::public.comment_sentiment, ARRAY['preco']::public.comment_topic[])$$,
+  '"demais" after the word weighs it more'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('Comida boa, mas demorou muito')$$,
+  $$VALUES (0.00, 'neutro'::public.comment_sentiment, ARRAY['comida', 'fila']::public.comment_topic[])$$,
+  'praise and complaint in one comment balance out'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('Ótimos drinks e livros incríveis')$$,
+  $$VALUES (0.89, 'positivo'::public.comment_sentiment, ARRAY['drinks', 'livros']::public.comment_topic[])$$,
+  'accents and plurals match the lexicon'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('Fui ontem.')$$,
+  $$VALUES (0.00, 'neutro'::public.comment_sentiment, '{}'::public.comment_topic[])$$,
+  'comments without lexicon words are neutral'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('')$$,
+  $$VALUES (NULL::NUMERIC, NULL::public.comment_sentiment, '{}'::public.comment_topic[])$$,
+  'empty comments get no sentiment'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment('   ')$$,
+  $$VALUES (NULL::NUMERIC, NULL::public.comment_sentiment, '{}'::public.comment_topic[])$$,
+  'blank comments get no sentiment'
+);
+
+SELECT results_eq(
+  $$SELECT sentiment_score, sentiment, topics FROM public.analyze_comment(NULL)$$,
+  $$VALUES (NULL::NUMERIC, NULL::public.comment_sentiment, '{}'::public.comment_topic[])$$,
+  'missing comments get no sentiment'
+);
+
+INSERT INTO public.feedbacks (id, nome, cpf, telefone, instagram, comentario)
+VALUES ('00000000-0000-4000-8000-000000000001', 'Teste', '52998224725', '+5511987654321', '', 'Comida deliciosa, mas caro demais');
+
+SELECT results_eq(
+  $$SELECT comment_sentiment_score, comment_sentiment, comment_topics FROM public.feedbacks WHERE id = '00000000-0000-4000-8000-000000000001'$$,
+  $$VALUES (0.24::NUMERIC(3, 2), 'positivo'::public.comment_sentiment, ARRAY['comida', 'preco']::public.comment_topic[])$$,
+  'new feedbacks are analyzed on insert'
+);
+
+UPDATE public.feedbacks SET comentario = 'Atendimento péssimo' WHERE id = '00000000-0000-4000-8000-000000000001';
+
+SELECT results_eq(
+  $$SELECT comment_sentiment_score, comment_sentiment, comment_topics FROM public.feedbacks WHERE id = '00000000-0000-4000-8000-000000000001'$$,
+  $$VALUES (-0.71::NUMERIC(3, 2), 'negativo'::public.comment_sentiment, ARRAY['atendimento']::public.comment_topic[])$$,
+  'edited comments are analyzed again'
+);
+
+SELECT is(
+  ARRAY[
+    public.comment_contradicts_rating('positivo', 2),
+    public.comment_contradicts_rating('positivo', 2.5),
+    public.comment_contradicts_rating('negativo', 4),
+    public.comment_contradicts_rating('negativo', 3.9),
+    public.comment_contradicts_rating('neutro', 1),
+    public.comment_contradicts_rating(NULL, 1)
+  ],
+  ARRAY[true, false, true, false, false, false],
+  'contradiction means positive at 2 stars or less, or negative at 4 or more'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
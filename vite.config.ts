@@ -1,5 +1,6 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { VitePWA } from "vite-plugin-pwa";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
@@ -13,6 +14,47 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    VitePWA({
+      // The app asks before reloading so nobody loses a half-filled form
+      registerType: "prompt",
+      includeAssets: ["favicon.ico", "icons/apple-touch-icon.png"],
+      manifest: {
+        name: "Lardo - Bar e Sebo · Avaliações",
+        short_name: "Lardo",
+        description: "Avaliações dos clientes e painel de gestão do Lardo - Bar e Sebo",
+        lang: "pt-BR",
+        start_url: "/",
+        display: "standalone",
+        theme_color: "#A72026",
+        background_color: "#FFFFFF",
+        icons: [
+          { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+          { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+          { src: "/icons/icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+          { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml" },
+        ],
+        shortcuts: [
+          { name: "Painel", url: "/admin" },
+          { name: "Modo quiosque", url: "/kiosk" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,png,svg}"],
+        navigateFallback: "/index.html",
+        runtimeCaching: [
+          {
+            // Local logo, or the remote copy it falls back to
+            urlPattern: ({ url }) =>
+              url.pathname === "/logo-lardo.png" || url.hostname === "servidores-estaticos-flax.vercel.app",
+            handler: "CacheFirst",
+            options: {
+              cacheName: "lardo-logo",
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {